@@ -12,8 +12,15 @@ import Home from "@/pages/Home";
 import Products from "@/pages/Products";
 import About from "@/pages/About";
 import Checkout from "@/pages/Checkout";
+import CheckoutResult from "@/pages/CheckoutResult";
+import CartRestore from "@/pages/CartRestore";
+import OrderPayment from "@/pages/OrderPayment";
+import OrderTracking from "@/pages/OrderTracking";
+import ClaimOrders from "@/pages/ClaimOrders";
 import Admin from "@/pages/Admin";
 import Profile from "@/pages/Profile";
+import CoursePlayer from "@/pages/CoursePlayer";
+import CourseEditor from "@/pages/CourseEditor";
 import PasswordRecovery from "@/pages/PasswordRecovery";
 import NotFound from "@/pages/not-found";
 
@@ -27,8 +34,15 @@ function Router() {
           <Route path="/products" component={Products} />
           <Route path="/about" component={About} />
           <Route path="/checkout" component={Checkout} />
+          <Route path="/checkout/:result" component={CheckoutResult} />
+          <Route path="/cart/restore/:id" component={CartRestore} />
+          <Route path="/orders/:id/payment" component={OrderPayment} />
+          <Route path="/orders/track/:token" component={OrderTracking} />
+          <Route path="/orders/claim" component={ClaimOrders} />
           <Route path="/admin" component={Admin} />
+          <Route path="/admin/courses/:productId" component={CourseEditor} />
           <Route path="/profile" component={Profile} />
+          <Route path="/profile/courses/:productId" component={CoursePlayer} />
           <Route path="/password-recovery" component={PasswordRecovery} />
           <Route component={NotFound} />
         </Switch>
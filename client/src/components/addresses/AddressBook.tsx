@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { formatAddress } from "@/lib/shipping";
+import { ARGENTINE_PROVINCES, userAddressSchema, type UserAddress, type UserAddressInput } from "@shared/schema";
+import { Edit, MapPin, Plus, Star, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// The province starts empty in the form; the server checks it against the list
+const addressFormSchema = userAddressSchema.omit({ province: true }).extend({
+  label: z.string().trim().max(50),
+  province: z.string().min(1, "Elegí una provincia"),
+  isDefault: z.boolean(),
+});
+
+type AddressForm = z.infer<typeof addressFormSchema>;
+
+function toFormValues(address: UserAddress | null, fallbackName: string): AddressForm {
+  return {
+    label: address?.label ?? "",
+    recipientName: address?.recipientName ?? fallbackName,
+    phone: address?.phone ?? "",
+    street: address?.street ?? "",
+    city: address?.city ?? "",
+    province: address?.province ?? "",
+    postalCode: address?.postalCode ?? "",
+    isDefault: address?.isDefault ?? false,
+  };
+}
+
+const toAddressInput = (address: UserAddress | AddressForm): UserAddressInput => ({
+  label: address.label || null,
+  recipientName: address.recipientName,
+  phone: address.phone,
+  street: address.street,
+  city: address.city,
+  province: address.province as UserAddressInput["province"],
+  postalCode: address.postalCode,
+  isDefault: address.isDefault,
+});
+
+interface AddressDialogProps {
+  address: UserAddress | null;
+  onClose: () => void;
+}
+
+function AddressDialog({ address, onClose }: AddressDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<AddressForm>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: toFormValues(address, user?.name ?? ""),
+  });
+  const province = watch("province");
+  const isDefault = watch("isDefault");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AddressForm) => {
+      const response = address
+        ? await apiRequest("PUT", `/api/addresses/${address.id}`, toAddressInput(data))
+        : await apiRequest("POST", "/api/addresses", toAddressInput(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+      toast({ title: address ? "Dirección actualizada" : "Dirección guardada" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo guardar la dirección"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{address ? "Editar Dirección" : "Nueva Dirección"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div>
+            <Label htmlFor="address-label">Nombre de la dirección (opcional)</Label>
+            <Input id="address-label" placeholder="ej: Casa, Trabajo" {...register("label")} />
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="address-recipient">Quién recibe</Label>
+              <Input id="address-recipient" {...register("recipientName")} />
+              {errors.recipientName && <p className="text-red-500 text-sm mt-1">{errors.recipientName.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="address-phone">Teléfono</Label>
+              <Input id="address-phone" {...register("phone")} />
+              {errors.phone && <p className="text-red-500 text-sm mt-1">{errors.phone.message}</p>}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="address-street">Calle y número</Label>
+            <Input id="address-street" placeholder="ej: Av. Corrientes 1234, 5° B" {...register("street")} />
+            {errors.street && <p className="text-red-500 text-sm mt-1">{errors.street.message}</p>}
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="address-city">Localidad</Label>
+              <Input id="address-city" {...register("city")} />
+              {errors.city && <p className="text-red-500 text-sm mt-1">{errors.city.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="address-postal-code">Código postal</Label>
+              <Input id="address-postal-code" placeholder="ej: 1414 o C1414ABC" {...register("postalCode")} />
+              {errors.postalCode && <p className="text-red-500 text-sm mt-1">{errors.postalCode.message}</p>}
+            </div>
+          </div>
+
+          <div>
+            <Label>Provincia</Label>
+            <Select
+              value={province || undefined}
+              onValueChange={(value) => setValue("province", value, { shouldValidate: true })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Elegí la provincia" />
+              </SelectTrigger>
+              <SelectContent>
+                {ARGENTINE_PROVINCES.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.province && <p className="text-red-500 text-sm mt-1">{errors.province.message}</p>}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="address-default"
+              checked={isDefault}
+              onCheckedChange={(checked) => setValue("isDefault", checked === true)}
+            />
+            <Label htmlFor="address-default" className="font-normal">
+              Usar como dirección predeterminada
+            </Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="btn-gradient text-white" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? <LoadingSpinner size="sm" /> : "Guardar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Addresses tab of the profile; the checkout offers the same list
+export function AddressBook() {
+  const { addresses } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed; "new" or the address being edited while open
+  const [editing, setEditing] = useState<UserAddress | "new" | null>(null);
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: errorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const makeDefaultMutation = useMutation({
+    mutationFn: async (address: UserAddress) => {
+      const response = await apiRequest("PUT", `/api/addresses/${address.id}`, {
+        ...toAddressInput(address),
+        isDefault: true,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+    },
+    onError: onMutationError("No se pudo cambiar la dirección predeterminada"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/addresses/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/addresses"] });
+      toast({ title: "Dirección eliminada" });
+    },
+    onError: onMutationError("No se pudo eliminar la dirección"),
+  });
+
+  const handleDelete = (address: UserAddress) => {
+    if (window.confirm("¿Eliminar esta dirección? Tus pedidos anteriores no cambian.")) {
+      deleteMutation.mutate(address.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Mis Direcciones</h2>
+        <Button onClick={() => setEditing("new")} className="btn-gradient text-white" data-testid="button-new-address">
+          <Plus className="w-4 h-4 mr-2" />
+          Nueva Dirección
+        </Button>
+      </div>
+
+      {addresses.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <MapPin className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">Guardá tus direcciones para completar el checkout más rápido</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {addresses.map((address) => (
+            <Card key={address.id} data-testid={`address-${address.id}`}>
+              <CardContent className="p-6">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h3 className="font-semibold text-gray-900">{address.label || address.recipientName}</h3>
+                  {address.isDefault && <Badge className="bg-mint text-white">Predeterminada</Badge>}
+                </div>
+                <p className="text-sm text-gray-700">{address.recipientName} · {address.phone}</p>
+                <p className="text-sm text-gray-600">{formatAddress(address)}</p>
+                <div className="flex gap-2 mt-4">
+                  {!address.isDefault && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => makeDefaultMutation.mutate(address)}
+                      disabled={makeDefaultMutation.isPending}
+                    >
+                      <Star className="w-4 h-4 mr-1" />
+                      Predeterminar
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setEditing(address)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(address)}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {editing && <AddressDialog address={editing === "new" ? null : editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
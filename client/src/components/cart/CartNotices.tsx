@@ -0,0 +1,31 @@
+import { useCart } from "@/contexts/CartContext";
+import { Button } from "@/components/ui/button";
+import { AlertCircle } from "lucide-react";
+
+// Changes the server made to a saved cart: items that became unavailable,
+// quantities capped at the stock and new prices
+export function CartNotices() {
+  const { notices, dismissNotices } = useCart();
+
+  if (notices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800" data-testid="cart-notices">
+      <ul className="space-y-1">
+        {notices.map((notice) => (
+          <li key={`${notice.productId}-${notice.code}`} className="flex items-start">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+            {notice.message}
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end mt-2">
+        <Button variant="ghost" size="sm" onClick={dismissNotices}>
+          Entendido
+        </Button>
+      </div>
+    </div>
+  );
+}
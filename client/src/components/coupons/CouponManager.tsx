@@ -0,0 +1,446 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { COUPON_TYPES, type AdminCoupon, type CouponInput, type CouponType, type Product } from "@shared/schema";
+import { Edit, Plus, Tag, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const couponTypeLabels: Record<CouponType, string> = {
+  percentage: "Porcentaje",
+  fixed: "Monto fijo",
+  free_shipping: "Envío gratis",
+};
+
+const productTypeLabels: Record<string, string> = {
+  physical: "Físico",
+  digital: "Digital",
+};
+
+const formatPrice = (price: string) =>
+  new Intl.NumberFormat("es-AR", {
+    style: "currency",
+    currency: "ARS",
+    minimumFractionDigits: 0,
+  }).format(parseFloat(price));
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString("es-AR");
+
+// Numbers are typed as text so optional limits can be left empty
+const amountField = z.string().trim().regex(/^(\d+([.,]\d{1,2})?)?$/, "Ingresá un monto válido");
+const countField = z.string().trim().regex(/^\d*$/, "Ingresá un número entero");
+
+const couponFormSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,50}$/, "Entre 3 y 50 letras, números, guiones o guiones bajos"),
+  description: z.string().max(200),
+  type: z.enum(COUPON_TYPES),
+  value: amountField,
+  minOrderAmount: amountField,
+  maxUses: countField,
+  maxUsesPerUser: countField,
+  startsAt: z.string(),
+  endsAt: z.string(),
+  categories: z.array(z.string()),
+  productTypes: z.array(z.string()),
+  ageRanges: z.array(z.string()),
+  isActive: z.boolean(),
+});
+
+type CouponForm = z.infer<typeof couponFormSchema>;
+type ScopeField = "categories" | "productTypes" | "ageRanges";
+
+const toNumber = (value: string) => (value.trim() === "" ? null : parseFloat(value.replace(",", ".")));
+// datetime-local inputs work in the browser's time zone
+const toDateInput = (date: Date | string | null) => (date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "");
+const fromDateInput = (value: string) => (value ? new Date(value) : null);
+
+function toFormValues(coupon: AdminCoupon | null): CouponForm {
+  return {
+    code: coupon?.code ?? "",
+    description: coupon?.description ?? "",
+    type: (coupon?.type as CouponType | undefined) ?? "percentage",
+    value: coupon && coupon.type !== "free_shipping" ? String(parseFloat(coupon.value)) : "",
+    minOrderAmount: coupon?.minOrderAmount ? String(parseFloat(coupon.minOrderAmount)) : "",
+    maxUses: coupon?.maxUses?.toString() ?? "",
+    maxUsesPerUser: coupon?.maxUsesPerUser?.toString() ?? "",
+    startsAt: toDateInput(coupon?.startsAt ?? null),
+    endsAt: toDateInput(coupon?.endsAt ?? null),
+    categories: coupon?.categories ?? [],
+    productTypes: coupon?.productTypes ?? [],
+    ageRanges: coupon?.ageRanges ?? [],
+    isActive: coupon?.isActive ?? true,
+  };
+}
+
+function describeValue(coupon: AdminCoupon): string {
+  if (coupon.type === "percentage") return `${parseFloat(coupon.value)}% de descuento`;
+  if (coupon.type === "fixed") return `${formatPrice(coupon.value)} de descuento`;
+  return "Envío gratis";
+}
+
+function describeScope(coupon: AdminCoupon): string {
+  const parts = [
+    coupon.categories?.length ? `Categorías: ${coupon.categories.join(", ")}` : null,
+    coupon.productTypes?.length ? `Tipo: ${coupon.productTypes.map((type) => productTypeLabels[type] ?? type).join(", ")}` : null,
+    coupon.ageRanges?.length ? `Edades: ${coupon.ageRanges.join(", ")}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Todos los productos";
+}
+
+function describeValidity(coupon: AdminCoupon): string | null {
+  if (coupon.startsAt && coupon.endsAt) return `Del ${formatDate(coupon.startsAt)} al ${formatDate(coupon.endsAt)}`;
+  if (coupon.startsAt) return `Desde el ${formatDate(coupon.startsAt)}`;
+  if (coupon.endsAt) return `Hasta el ${formatDate(coupon.endsAt)}`;
+  return null;
+}
+
+interface ScopeOptionsProps {
+  label: string;
+  field: ScopeField;
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (field: ScopeField, values: string[]) => void;
+}
+
+function ScopeOptions({ label, field, options, selected, onChange }: ScopeOptionsProps) {
+  if (options.length === 0) return null;
+  return (
+    <div>
+      <Label className="block mb-2">{label}</Label>
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {options.map((option) => (
+          <div key={option.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`coupon-${field}-${option.value}`}
+              checked={selected.includes(option.value)}
+              onCheckedChange={(checked) =>
+                onChange(
+                  field,
+                  checked ? [...selected, option.value] : selected.filter((value) => value !== option.value),
+                )
+              }
+            />
+            <Label htmlFor={`coupon-${field}-${option.value}`} className="font-normal">{option.label}</Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface CouponDialogProps {
+  coupon: AdminCoupon | null;
+  products: Product[];
+  onClose: () => void;
+}
+
+// Creates a coupon or edits an existing one. Scope options come from the
+// values the catalogue actually uses.
+function CouponDialog({ coupon, products, onClose }: CouponDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<CouponForm>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues: toFormValues(coupon),
+  });
+  const watchType = watch("type");
+  const scopes = watch(["categories", "productTypes", "ageRanges"]);
+  const isActive = watch("isActive");
+
+  const distinct = (values: string[]) => Array.from(new Set(values)).sort().map((value) => ({ value, label: value }));
+  // Values saved on the coupon stay listed even if no product uses them anymore
+  const categoryOptions = distinct([...products.map((product) => product.category), ...(coupon?.categories ?? [])]);
+  const ageRangeOptions = distinct([...products.map((product) => product.ageRange), ...(coupon?.ageRanges ?? [])]);
+  const productTypeOptions = Object.entries(productTypeLabels).map(([value, label]) => ({ value, label }));
+
+  const setScope = (field: ScopeField, values: string[]) => {
+    setValue(field, values, { shouldDirty: true });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CouponForm) => {
+      const couponData: CouponInput = {
+        code: data.code.toUpperCase(),
+        description: data.description.trim() || null,
+        type: data.type,
+        value: data.type === "free_shipping" ? 0 : toNumber(data.value) ?? 0,
+        categories: data.categories,
+        productTypes: data.productTypes,
+        ageRanges: data.ageRanges,
+        minOrderAmount: toNumber(data.minOrderAmount),
+        maxUses: toNumber(data.maxUses),
+        maxUsesPerUser: toNumber(data.maxUsesPerUser),
+        startsAt: fromDateInput(data.startsAt),
+        endsAt: fromDateInput(data.endsAt),
+        isActive: data.isActive,
+      };
+      const response = coupon
+        ? await apiRequest("PUT", `/api/admin/coupons/${coupon.id}`, couponData)
+        : await apiRequest("POST", "/api/admin/coupons", couponData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/coupons"] });
+      toast({ title: coupon ? "Cupón actualizado" : "Cupón creado" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo guardar el cupón"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{coupon ? "Editar Cupón" : "Nuevo Cupón"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="coupon-code">Código</Label>
+              <Input
+                id="coupon-code"
+                className="uppercase"
+                data-testid="input-coupon-code"
+                {...register("code")}
+              />
+              {errors.code && <p className="text-red-500 text-sm mt-1">{errors.code.message}</p>}
+            </div>
+            <div>
+              <Label>Tipo</Label>
+              <Select value={watchType} onValueChange={(value) => setValue("type", value as CouponType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUPON_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{couponTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="coupon-description">Descripción</Label>
+            <Input id="coupon-description" placeholder="ej: 10% en juegos digitales" {...register("description")} />
+            {errors.description && <p className="text-red-500 text-sm mt-1">{errors.description.message}</p>}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {watchType !== "free_shipping" && (
+              <div>
+                <Label htmlFor="coupon-value">
+                  {watchType === "percentage" ? "Porcentaje de descuento" : "Monto de descuento ($)"}
+                </Label>
+                <Input id="coupon-value" inputMode="decimal" {...register("value")} />
+                {errors.value && <p className="text-red-500 text-sm mt-1">{errors.value.message}</p>}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="coupon-min-order">Compra mínima ($)</Label>
+              <Input id="coupon-min-order" inputMode="decimal" placeholder="Sin mínimo" {...register("minOrderAmount")} />
+              {errors.minOrderAmount && <p className="text-red-500 text-sm mt-1">{errors.minOrderAmount.message}</p>}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="coupon-max-uses">Usos totales</Label>
+              <Input id="coupon-max-uses" inputMode="numeric" placeholder="Sin límite" {...register("maxUses")} />
+              {errors.maxUses && <p className="text-red-500 text-sm mt-1">{errors.maxUses.message}</p>}
+            </div>
+            <div>
+              <Label htmlFor="coupon-max-uses-per-user">Usos por cliente</Label>
+              <Input id="coupon-max-uses-per-user" inputMode="numeric" placeholder="Sin límite" {...register("maxUsesPerUser")} />
+              {errors.maxUsesPerUser && <p className="text-red-500 text-sm mt-1">{errors.maxUsesPerUser.message}</p>}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="coupon-starts-at">Válido desde</Label>
+              <Input id="coupon-starts-at" type="datetime-local" {...register("startsAt")} />
+            </div>
+            <div>
+              <Label htmlFor="coupon-ends-at">Válido hasta</Label>
+              <Input id="coupon-ends-at" type="datetime-local" {...register("endsAt")} />
+            </div>
+          </div>
+
+          <div className="border-t pt-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              Sin selección, el cupón aplica a todos los productos. Con varias, el producto tiene que cumplir todas.
+            </p>
+            <ScopeOptions label="Categorías" field="categories" options={categoryOptions} selected={scopes[0]} onChange={setScope} />
+            <ScopeOptions label="Tipo de producto" field="productTypes" options={productTypeOptions} selected={scopes[1]} onChange={setScope} />
+            <ScopeOptions label="Rango de edad" field="ageRanges" options={ageRangeOptions} selected={scopes[2]} onChange={setScope} />
+          </div>
+
+          <div className="flex items-center gap-3 border-t pt-4">
+            <Checkbox
+              id="coupon-active"
+              checked={isActive}
+              onCheckedChange={(checked) => setValue("isActive", checked === true, { shouldDirty: true })}
+            />
+            <Label htmlFor="coupon-active">Activo</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="btn-gradient text-white" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? <LoadingSpinner size="sm" /> : coupon ? "Guardar" : "Crear cupón"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface CouponManagerProps {
+  products: Product[];
+}
+
+// Coupons tab of the admin panel
+export function CouponManager({ products }: CouponManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed; "new" or the coupon being edited while open
+  const [editing, setEditing] = useState<AdminCoupon | "new" | null>(null);
+
+  const { data: coupons = [], isLoading } = useQuery<AdminCoupon[]>({
+    queryKey: ["/api/admin/coupons"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/coupons/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/coupons"] });
+      toast({ title: "Cupón eliminado" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo eliminar el cupón"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (coupon: AdminCoupon) => {
+    if (window.confirm(`¿Eliminar el cupón ${coupon.code}?`)) {
+      deleteMutation.mutate(coupon.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Cupones de Descuento</h2>
+        <Button onClick={() => setEditing("new")} className="btn-gradient text-white" data-testid="button-new-coupon">
+          <Plus className="w-4 h-4 mr-2" />
+          Nuevo Cupón
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : coupons.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">Todavía no creaste cupones</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {coupons.map((coupon) => (
+            <Card key={coupon.id} data-testid={`coupon-${coupon.code}`}>
+              <CardContent className="p-6 flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-semibold text-gray-900 font-mono">{coupon.code}</h3>
+                    <Badge className={coupon.isActive ? "bg-green-500" : "bg-gray-400"}>
+                      {coupon.isActive ? "Activo" : "Inactivo"}
+                    </Badge>
+                  </div>
+                  <p className="text-gray-700">
+                    {describeValue(coupon)}
+                    {coupon.minOrderAmount && ` · compra mínima ${formatPrice(coupon.minOrderAmount)}`}
+                  </p>
+                  {coupon.description && <p className="text-sm text-gray-600">{coupon.description}</p>}
+                  <p className="text-sm text-gray-600">{describeScope(coupon)}</p>
+                  {describeValidity(coupon) && <p className="text-sm text-gray-600">{describeValidity(coupon)}</p>}
+                  <p className="text-sm text-gray-600">
+                    Usos: {coupon.uses}{coupon.maxUses !== null && ` de ${coupon.maxUses}`}
+                    {coupon.maxUsesPerUser !== null && ` · ${coupon.maxUsesPerUser} por cliente`}
+                    {" · "}Descontado: {formatPrice(coupon.totalDiscount)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditing(coupon)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(coupon)}
+                    disabled={deleteMutation.isPending}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <CouponDialog
+          coupon={editing === "new" ? null : editing}
+          products={products}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import type { CourseSummary } from "@shared/schema";
+import { GraduationCap, PlayCircle } from "lucide-react";
+
+// Courses the user bought, with how far they got in each
+export function MyCourses() {
+  const { data: courses = [], isLoading } = useQuery<CourseSummary[]>({
+    queryKey: ["/api/courses"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (courses.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <GraduationCap className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-xl text-gray-600 mb-4">Todavía no tenés cursos</p>
+          <Link href="/products">
+            <Button className="btn-gradient text-white">Ver Productos</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {courses.map((course) => {
+        const percent = course.totalLessons === 0
+          ? 0
+          : Math.round((course.completedLessons / course.totalLessons) * 100);
+
+        return (
+          <Card key={course.productId}>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center space-x-4">
+                <img
+                  src={course.imageUrl}
+                  alt={course.productName}
+                  className="w-16 h-16 object-cover rounded-lg"
+                />
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{course.productName}</h3>
+                  <p className="text-sm text-gray-600">
+                    {course.completedLessons} de {course.totalLessons} lecciones completadas
+                  </p>
+                </div>
+              </div>
+              <Progress value={percent} className="h-2" />
+              <Link href={`/profile/courses/${course.productId}`}>
+                <Button className="w-full btn-gradient text-white" data-testid={`button-open-course-${course.productId}`}>
+                  <PlayCircle className="w-4 h-4 mr-2" />
+                  {course.completedLessons === 0 ? "Empezar curso" : "Continuar curso"}
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
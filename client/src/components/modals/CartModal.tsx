@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useCart } from "@/contexts/CartContext";
 import { Button } from "@/components/ui/button";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { CartNotices } from "@/components/cart/CartNotices";
 import { Product } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Minus, Plus, X } from "lucide-react";
@@ -48,7 +49,9 @@ export function CartModal({ isOpen, onClose }: CartModalProps) {
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold text-gray-900">Tu Carrito</DialogTitle>
         </DialogHeader>
-        
+
+        <CartNotices />
+
         {cartItems.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-gray-500 mb-4">Tu carrito está vacío</p>
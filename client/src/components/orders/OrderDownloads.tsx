@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { formatFileSize } from "@/lib/utils";
+import type { DownloadStatus, OrderDownload } from "@shared/schema";
+import { Download } from "lucide-react";
+
+const statusLabels: Record<DownloadStatus, string> = {
+  active: "Disponible",
+  expired: "Enlace vencido",
+  exhausted: "Límite de descargas alcanzado",
+  revoked: "Acceso revocado",
+  unavailable: "Archivo no disponible",
+};
+
+interface OrderDownloadsProps {
+  orderId: string;
+}
+
+export function OrderDownloads({ orderId }: OrderDownloadsProps) {
+  const { data: downloads = [], isLoading } = useQuery<OrderDownload[]>({
+    queryKey: ["/api/orders", orderId, "downloads"],
+  });
+
+  if (isLoading) {
+    return <LoadingSpinner size="sm" />;
+  }
+  if (downloads.length === 0) {
+    return <p className="text-sm text-gray-500">Tus descargas estarán disponibles en breve.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {downloads.map((download) => (
+        <div key={download.id} className="flex items-center justify-between gap-4">
+          <div>
+            <p className="font-medium">{download.fileName}</p>
+            <p className="text-xs text-gray-500">
+              {download.productName} · {formatFileSize(download.size)}
+              {download.status === "active" && (
+                <> · {download.downloadsLeft} descargas restantes hasta el {new Date(download.expiresAt).toLocaleDateString("es-AR")}</>
+              )}
+            </p>
+          </div>
+          {download.url ? (
+            <a href={download.url} data-testid={`link-download-${download.id}`}>
+              <Button variant="outline" size="sm">
+                <Download className="w-4 h-4 mr-1" />
+                Descargar
+              </Button>
+            </a>
+          ) : (
+            <span className="text-sm text-gray-500">{statusLabels[download.status]}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { OrderStatusHistoryEntry } from "@shared/schema";
+import { getStatusColor, getStatusLabel } from "@/lib/order-status";
+
+interface OrderTimelineProps {
+  history: OrderStatusHistoryEntry[];
+  // Admins see who made each change; customers only see what happened
+  showAuthor?: boolean;
+}
+
+export function OrderTimeline({ history, showAuthor = false }: OrderTimelineProps) {
+  if (history.length === 0) return null;
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${getStatusColor(entry.toStatus)}`} />
+          <p className="text-sm font-medium text-gray-900">{getStatusLabel(entry.toStatus)}</p>
+          <p className="text-xs text-gray-500">
+            {new Date(entry.createdAt).toLocaleString("es-AR")}
+            {showAuthor && ` · ${entry.changedByName ?? "Sistema"}`}
+          </p>
+          {entry.note && <p className="text-sm text-gray-600 mt-1">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
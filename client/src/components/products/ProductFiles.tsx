@@ -0,0 +1,128 @@
+import { useRef, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiUpload, errorMessage } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/utils";
+import type { ProductFile } from "@shared/schema";
+import { FileText, Trash2, Upload } from "lucide-react";
+
+interface ProductFilesProps {
+  productId: string;
+}
+
+// Files buyers of a digital product get download links for once they pay
+export function ProductFiles({ productId }: ProductFilesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const queryKey = ["/api/admin/products", productId, "files"];
+
+  const { data: files = [], isLoading } = useQuery<ProductFile[]>({ queryKey });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const url = `/api/admin/products/${productId}/files?name=${encodeURIComponent(file.name)}`;
+      const response = await apiUpload("POST", url, file);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Archivo subido" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo subir el archivo"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (fileId: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/product-files/${fileId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Archivo eliminado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo eliminar el archivo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  const handleRemove = (file: ProductFile) => {
+    if (window.confirm(`¿Eliminar "${file.fileName}"? Los enlaces ya enviados dejarán de funcionar.`)) {
+      removeMutation.mutate(file.id);
+    }
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <Label>Archivos descargables</Label>
+      {isLoading ? (
+        <LoadingSpinner size="sm" />
+      ) : files.length === 0 ? (
+        <p className="text-sm text-gray-500">Este producto todavía no tiene archivos para entregar.</p>
+      ) : (
+        <div className="space-y-2">
+          {files.map((file) => (
+            <div key={file.id} className="flex items-center justify-between gap-4">
+              <div className="flex items-center space-x-2">
+                <FileText className="w-4 h-4 text-gray-400" />
+                <span className="text-sm">{file.fileName}</span>
+                <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleRemove(file)}
+                disabled={removeMutation.isPending}
+                data-testid={`button-remove-file-${file.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <input
+        ref={fileInput}
+        type="file"
+        className="hidden"
+        onChange={handleFileChange}
+        data-testid="input-product-file"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => fileInput.current?.click()}
+        disabled={uploadMutation.isPending}
+      >
+        {uploadMutation.isPending ? (
+          <LoadingSpinner size="sm" className="mr-2" />
+        ) : (
+          <Upload className="w-4 h-4 mr-2" />
+        )}
+        Subir archivo
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useRef, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiUpload, errorMessage } from "@/lib/queryClient";
+import type { LicenseKeyPool } from "@shared/schema";
+import { AlertTriangle, Upload } from "lucide-react";
+
+interface ProductLicenseKeysProps {
+  productId: string;
+}
+
+interface ImportResult {
+  imported: number;
+  duplicates: number;
+  fulfilledOrders: number;
+}
+
+// Key pool of a license key product, refilled by importing a CSV
+export function ProductLicenseKeys({ productId }: ProductLicenseKeysProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: pools = [], isLoading } = useQuery<LicenseKeyPool[]>({
+    queryKey: ["/api/admin/license-keys"],
+  });
+  const pool = pools.find((candidate) => candidate.productId === productId);
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      // Browsers label CSV files inconsistently (e.g. as Excel files)
+      const csv = new File([file], file.name, { type: "text/csv" });
+      const response = await apiUpload("POST", `/api/admin/products/${productId}/license-keys`, csv);
+      return response.json();
+    },
+    onSuccess: (result: ImportResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/license-keys"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Claves importadas",
+        description: [
+          `${result.imported} nuevas`,
+          result.duplicates > 0 ? `${result.duplicates} repetidas` : null,
+          result.fulfilledOrders > 0 ? `${result.fulfilledOrders} pedidos en espera entregados` : null,
+        ].filter(Boolean).join(", "),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudieron importar las claves"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <Label>Claves de licencia</Label>
+      {isLoading ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <div className="space-y-1 text-sm text-gray-600">
+          <p>
+            Disponibles: <span className="font-semibold">{pool?.available ?? 0}</span>
+            {" · "}Asignadas: <span className="font-semibold">{pool?.assigned ?? 0}</span>
+          </p>
+          {pool && pool.waiting > 0 && (
+            <p className="flex items-center text-red-600">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              {pool.waiting} unidades pagadas esperan una clave
+            </p>
+          )}
+          <p className="text-xs text-gray-500">
+            Un archivo CSV o de texto con una clave por línea (se usa la primera columna).
+          </p>
+        </div>
+      )}
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".csv,.txt,text/csv,text/plain"
+        className="hidden"
+        onChange={handleFileChange}
+        data-testid="input-license-keys"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => fileInput.current?.click()}
+        disabled={importMutation.isPending}
+      >
+        {importMutation.isPending ? (
+          <LoadingSpinner size="sm" className="mr-2" />
+        ) : (
+          <Upload className="w-4 h-4 mr-2" />
+        )}
+        Importar claves
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { getShippingMethodLabel } from "@/lib/shipping";
+import {
+  ARGENTINE_PROVINCES,
+  CARRIER_SHIPPING_METHODS,
+  type CarrierShippingMethod,
+  type Province,
+  type ShippingZoneInput,
+  type ShippingZoneView,
+} from "@shared/schema";
+import { Edit, Plus, Trash2, Truck, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const formatPrice = (price: string) =>
+  new Intl.NumberFormat("es-AR", {
+    style: "currency",
+    currency: "ARS",
+    minimumFractionDigits: 0,
+  }).format(parseFloat(price));
+
+const formatWeight = (grams: number | null) =>
+  grams === null ? "sin límite" : grams >= 1000 ? `hasta ${grams / 1000} kg` : `hasta ${grams} g`;
+
+// Rate rows as typed in the dialog; an empty weight is the top tier
+interface RateRow {
+  method: CarrierShippingMethod;
+  maxWeightGrams: string;
+  price: string;
+  deliveryTime: string;
+}
+
+const emptyRate = (): RateRow => ({ method: "home", maxWeightGrams: "", price: "", deliveryTime: "" });
+
+interface ZoneDialogProps {
+  zone: ShippingZoneView | null;
+  zones: ShippingZoneView[];
+  onClose: () => void;
+}
+
+// Creates a zone or edits one, together with its rate table
+function ZoneDialog({ zone, zones, onClose }: ZoneDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(zone?.name ?? "");
+  const [provinces, setProvinces] = useState<Province[]>(zone?.provinces ?? []);
+  const [rates, setRates] = useState<RateRow[]>(
+    zone?.rates.map((rate) => ({
+      method: rate.method as CarrierShippingMethod,
+      maxWeightGrams: rate.maxWeightGrams?.toString() ?? "",
+      price: String(parseFloat(rate.price)),
+      deliveryTime: rate.deliveryTime ?? "",
+    })) ?? [emptyRate()],
+  );
+
+  // A province can only be in one zone
+  const takenBy = (province: Province) =>
+    zones.find((other) => other.id !== zone?.id && other.provinces.includes(province))?.name;
+
+  const updateRate = (index: number, change: Partial<RateRow>) => {
+    setRates(rates.map((rate, i) => (i === index ? { ...rate, ...change } : rate)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const zoneData: ShippingZoneInput = {
+        name,
+        provinces,
+        rates: rates.map((rate) => ({
+          method: rate.method,
+          maxWeightGrams: rate.maxWeightGrams.trim() === "" ? null : parseInt(rate.maxWeightGrams),
+          price: parseFloat(rate.price.replace(",", ".")),
+          deliveryTime: rate.deliveryTime.trim() || null,
+        })),
+      };
+      const response = zone
+        ? await apiRequest("PUT", `/api/admin/shipping-zones/${zone.id}`, zoneData)
+        : await apiRequest("POST", "/api/admin/shipping-zones", zoneData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/shipping-zones"] });
+      toast({ title: zone ? "Zona actualizada" : "Zona creada" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo guardar la zona"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{zone ? "Editar Zona" : "Nueva Zona de Envío"}</DialogTitle>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+          className="space-y-6"
+        >
+          <div>
+            <Label htmlFor="zone-name">Nombre</Label>
+            <Input id="zone-name" placeholder="ej: AMBA" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div>
+            <Label className="block mb-2">Provincias</Label>
+            <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-2">
+              {ARGENTINE_PROVINCES.map((province) => {
+                const otherZone = takenBy(province);
+                return (
+                  <div key={province} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`zone-province-${province}`}
+                      checked={provinces.includes(province)}
+                      disabled={!!otherZone}
+                      onCheckedChange={(checked) =>
+                        setProvinces(checked ? [...provinces, province] : provinces.filter((p) => p !== province))
+                      }
+                    />
+                    <Label
+                      htmlFor={`zone-province-${province}`}
+                      className={`font-normal ${otherZone ? "text-gray-400" : ""}`}
+                      title={otherZone ? `En la zona ${otherZone}` : undefined}
+                    >
+                      {province}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <Label className="block mb-1">Tarifas</Label>
+            <p className="text-sm text-gray-600 mb-3">
+              Cada envío paga la tarifa más barata de su método en la que entra su peso. Dejá el peso vacío para la última franja.
+            </p>
+            <div className="space-y-2">
+              {rates.map((rate, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-3">
+                    <Select value={rate.method} onValueChange={(value) => updateRate(index, { method: value as CarrierShippingMethod })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CARRIER_SHIPPING_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>{getShippingMethodLabel(method)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min={1}
+                    placeholder="Peso máx. (g)"
+                    value={rate.maxWeightGrams}
+                    onChange={(e) => updateRate(index, { maxWeightGrams: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-2"
+                    inputMode="decimal"
+                    placeholder="Precio ($)"
+                    value={rate.price}
+                    onChange={(e) => updateRate(index, { price: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-4"
+                    placeholder="Demora, ej: 3 a 5 días hábiles"
+                    value={rate.deliveryTime}
+                    onChange={(e) => updateRate(index, { deliveryTime: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    disabled={rates.length === 1}
+                    onClick={() => setRates(rates.filter((_, i) => i !== index))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button type="button" variant="outline" size="sm" className="mt-3" onClick={() => setRates([...rates, emptyRate()])}>
+              <Plus className="w-4 h-4 mr-1" />
+              Agregar tarifa
+            </Button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="btn-gradient text-white" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? <LoadingSpinner size="sm" /> : zone ? "Guardar" : "Crear zona"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Shipping tab of the admin panel: zones of provinces and their rate tables
+export function ShippingZones() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while closed; "new" or the zone being edited while open
+  const [editing, setEditing] = useState<ShippingZoneView | "new" | null>(null);
+
+  const { data: zones = [], isLoading } = useQuery<ShippingZoneView[]>({
+    queryKey: ["/api/admin/shipping-zones"],
+  });
+
+  const unshipped = ARGENTINE_PROVINCES.filter((province) => !zones.some((zone) => zone.provinces.includes(province)));
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/shipping-zones/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/shipping-zones"] });
+      toast({ title: "Zona eliminada" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo eliminar la zona"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (zone: ShippingZoneView) => {
+    if (window.confirm(`¿Eliminar la zona ${zone.name}? Sus provincias quedarán sin envío.`)) {
+      deleteMutation.mutate(zone.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Zonas de Envío</h2>
+        <Button onClick={() => setEditing("new")} className="btn-gradient text-white" data-testid="button-new-shipping-zone">
+          <Plus className="w-4 h-4 mr-2" />
+          Nueva Zona
+        </Button>
+      </div>
+
+      {!isLoading && unshipped.length > 0 && (
+        <p className="text-sm text-gray-600">
+          Sin envío (los pedidos con productos físicos no se pueden completar): {unshipped.join(", ")}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : zones.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Truck className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">Todavía no configuraste zonas de envío</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {zones.map((zone) => (
+            <Card key={zone.id}>
+              <CardContent className="p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{zone.name}</h3>
+                    <p className="text-sm text-gray-600">{zone.provinces.join(", ")}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing(zone)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(zone)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="border-t pt-3 space-y-1">
+                  {zone.rates.map((rate) => (
+                    <div key={rate.id} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">
+                        {getShippingMethodLabel(rate.method)} · {formatWeight(rate.maxWeightGrams)}
+                        {rate.deliveryTime && <span className="text-gray-500"> · {rate.deliveryTime}</span>}
+                      </span>
+                      <span className="font-semibold text-mint">{formatPrice(rate.price)}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <ZoneDialog zone={editing === "new" ? null : editing} zones={zones} onClose={() => setEditing(null)} />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useQuery } from "@tanstack/react-query";
 import { AuthUser } from "@/types";
-import { apiRequest } from "@/lib/queryClient";
+import { UserAddress } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface AuthContextType {
   user: AuthUser | null;
@@ -8,15 +10,29 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   isLoading: boolean;
+  // Saved addresses of the signed-in user, the default one first
+  addresses: UserAddress[];
+  defaultAddress: UserAddress | null;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Cached per-account data must not carry over to whoever signs in next
+function clearUserQueries() {
+  queryClient.removeQueries({ queryKey: ["/api/addresses"] });
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  const { data: addresses = [] } = useQuery<UserAddress[]>({
+    queryKey: ["/api/addresses"],
+    enabled: !!user,
+  });
+  const defaultAddress = addresses.find((address) => address.isDefault) ?? null;
+
   useEffect(() => {
     const savedToken = localStorage.getItem("auth_token");
     const savedUser = localStorage.getItem("auth_user");
@@ -26,6 +42,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(JSON.parse(savedUser));
     }
     setIsLoading(false);
+
+    // queryClient clears storage when a refresh is rejected; mirror it here.
+    const handleExpired = () => {
+      setUser(null);
+      setToken(null);
+      clearUserQueries();
+    };
+    window.addEventListener("auth:expired", handleExpired);
+    return () => window.removeEventListener("auth:expired", handleExpired);
   }, []);
 
   const login = async (email: string, password: string): Promise<void> => {
@@ -35,13 +60,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(data.user);
     setToken(data.token);
     localStorage.setItem("auth_token", data.token);
+    localStorage.setItem("auth_refresh_token", data.refreshToken);
     localStorage.setItem("auth_user", JSON.stringify(data.user));
   };
 
   const logout = async (): Promise<void> => {
     if (token) {
       try {
-        await apiRequest("POST", "/api/auth/logout");
+        await apiRequest("POST", "/api/auth/logout", {
+          refreshToken: localStorage.getItem("auth_refresh_token") ?? undefined,
+        });
       } catch (error) {
         console.error("Logout error:", error);
       }
@@ -49,12 +77,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     setUser(null);
     setToken(null);
+    clearUserQueries();
     localStorage.removeItem("auth_token");
+    localStorage.removeItem("auth_refresh_token");
     localStorage.removeItem("auth_user");
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, token, login, logout, isLoading, addresses, defaultAddress }}>
       {children}
     </AuthContext.Provider>
   );
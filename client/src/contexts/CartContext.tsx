@@ -1,6 +1,9 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { Product } from "@shared/schema";
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
+import { CartNotice, CartView, Product } from "@shared/schema";
 import { CartItem } from "@/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
 interface CartContextType {
   items: CartItem[];
@@ -8,15 +11,29 @@ interface CartContextType {
   removeFromCart: (productId: string) => void;
   updateQuantity: (productId: string, quantity: number) => void;
   clearCart: () => void;
+  restoreItems: (items: CartItem[]) => void;
   getCartTotal: (products: Product[]) => number;
   getCartItemsWithProducts: (products: Product[]) => Array<{ product: Product; quantity: number }>;
   itemCount: number;
+  // What the server changed in the cart (removed items, capped quantities,
+  // new prices) since the user last saw it
+  notices: CartNotice[];
+  dismissNotices: () => void;
 }
 
 const CartContext = createContext<CartContextType | null>(null);
 
 export function CartProvider({ children }: { children: ReactNode }) {
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
   const [items, setItems] = useState<CartItem[]>([]);
+  const [notices, setNotices] = useState<CartNotice[]>([]);
+  // The user whose server cart the local one mirrors; changes are only
+  // pushed once the two are in sync
+  const [syncedUserId, setSyncedUserId] = useState<string | null>(null);
+  // undefined until the auth state is known, then the last seen user id
+  const lastUserId = useRef<string | null | undefined>(undefined);
+  const skipNextSync = useRef(false);
 
   useEffect(() => {
     const savedCart = localStorage.getItem("cart_items");
@@ -29,6 +46,80 @@ export function CartProvider({ children }: { children: ReactNode }) {
     localStorage.setItem("cart_items", JSON.stringify(items));
   }, [items]);
 
+  const applyServerCart = (cart: CartView) => {
+    skipNextSync.current = true;
+    setItems(cart.items);
+    if (cart.notices.length > 0) {
+      setNotices(cart.notices);
+      toast({
+        title: "Actualizamos tu carrito",
+        description: cart.notices.map(notice => notice.message).join(". "),
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const previousUserId = lastUserId.current;
+    const userId = user?.id ?? null;
+    lastUserId.current = userId;
+    if (previousUserId === userId) return;
+
+    if (!userId) {
+      // The cart stays saved on the server; don't leave it on a shared device
+      if (previousUserId) {
+        setItems([]);
+        setNotices([]);
+      }
+      setSyncedUserId(null);
+      return;
+    }
+
+    // Signing in merges what was added while signed out. On a page load with
+    // an open session the saved cart wins, so removals made on another
+    // device are not undone by this browser's copy.
+    const request = previousUserId === undefined
+      ? apiRequest("GET", "/api/cart")
+      : apiRequest("POST", "/api/cart/merge", { items });
+
+    let cancelled = false;
+    request
+      .then(response => response.json())
+      .then((cart: CartView) => {
+        if (cancelled) return;
+        applyServerCart(cart);
+        setSyncedUserId(userId);
+      })
+      .catch(error => console.error("Cart sync error:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, authLoading]);
+
+  useEffect(() => {
+    if (!user || syncedUserId !== user.id) return;
+    if (skipNextSync.current) {
+      skipNextSync.current = false;
+      return;
+    }
+
+    // Quick successive changes (e.g. pressing "+" a few times) are sent once
+    const timeout = setTimeout(() => {
+      apiRequest("PUT", "/api/cart", { items })
+        .then(response => response.json())
+        .then((cart: CartView) => {
+          if (cart.notices.length > 0) {
+            applyServerCart(cart);
+          }
+        })
+        .catch(error => console.error("Cart sync error:", error));
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [items, syncedUserId]);
+
   const addToCart = (product: Product) => {
     setItems(currentItems => {
       const existingItem = currentItems.find(item => item.productId === product.id);
@@ -66,6 +157,24 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const clearCart = () => {
     setItems([]);
+    setNotices([]);
+  };
+
+  // Puts back a cart from a reminder email. Products already in the cart keep
+  // the larger quantity, as when merging at login.
+  const restoreItems = (restored: CartItem[]) => {
+    setItems(currentItems => {
+      const merged = currentItems.map(item => {
+        const match = restored.find(restoredItem => restoredItem.productId === item.productId);
+        return match ? { ...item, quantity: Math.max(item.quantity, match.quantity) } : item;
+      });
+      const added = restored.filter(restoredItem => !currentItems.some(item => item.productId === restoredItem.productId));
+      return [...merged, ...added];
+    });
+  };
+
+  const dismissNotices = () => {
+    setNotices([]);
   };
 
   const getCartTotal = (products: Product[]): number => {
@@ -93,9 +202,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
       removeFromCart,
       updateQuantity,
       clearCart,
+      restoreItems,
       getCartTotal,
       getCartItemsWithProducts,
       itemCount,
+      notices,
+      dismissNotices,
     }}>
       {children}
     </CartContext.Provider>
@@ -0,0 +1,26 @@
+// Display helpers for order statuses, shared by the admin and profile views.
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case "pending": return "bg-yellow-500";
+    case "confirmed": return "bg-blue-500";
+    case "shipped": return "bg-purple-500";
+    case "delivered": return "bg-green-500";
+    case "cancelled": return "bg-red-500";
+    case "refunded": return "bg-gray-700";
+    case "returned": return "bg-orange-500";
+    default: return "bg-gray-500";
+  }
+};
+
+export const getStatusLabel = (status: string) => {
+  switch (status) {
+    case "pending": return "Pendiente";
+    case "confirmed": return "Confirmado";
+    case "shipped": return "Enviado";
+    case "delivered": return "Entregado";
+    case "cancelled": return "Cancelado";
+    case "refunded": return "Reembolsado";
+    case "returned": return "Devuelto";
+    default: return status;
+  }
+};
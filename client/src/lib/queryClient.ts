@@ -1,10 +1,101 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// The JSON body of an API error (see errorHandler in server/errors.ts)
+export interface ApiErrorBody {
+  message?: string;
+  errors?: unknown; // validation issues or other details, by route
+}
+
+// Keeps the "<status>: <body>" message callers already show, plus the parsed
+// JSON body for callers that need structured error details.
+export class ApiError extends Error {
+  constructor(public status: number, text: string, public data: unknown) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+  }
+}
+
+// The JSON body of a failed API request, or null for any other error
+export function apiErrorBody(error: unknown): ApiErrorBody | null {
+  return error instanceof ApiError && typeof error.data === "object" && error.data !== null
+    ? error.data as ApiErrorBody
+    : null;
+}
+
+// The server's message for a failed request (its JSON body carries one),
+// else the error's own message, else the fallback
+export function errorMessage(error: unknown, fallback: string): string {
+  return apiErrorBody(error)?.message || (error instanceof Error && error.message) || fallback;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: unknown = null;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Not JSON; the raw text is still in the message
+    }
+    throw new ApiError(res.status, text, data);
+  }
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem("auth_token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Exchanges the stored refresh token for a new token pair. Concurrent 401s
+// share one request because the server rotates the refresh token on use.
+export function refreshAuthToken(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem("auth_refresh_token");
+      if (!refreshToken) return false;
+
+      const res = await fetch("/api/auth/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        localStorage.removeItem("auth_token");
+        localStorage.removeItem("auth_refresh_token");
+        localStorage.removeItem("auth_user");
+        window.dispatchEvent(new Event("auth:expired"));
+        return false;
+      }
+
+      const data = await res.json();
+      localStorage.setItem("auth_token", data.token);
+      localStorage.setItem("auth_refresh_token", data.refreshToken);
+      localStorage.setItem("auth_user", JSON.stringify(data.user));
+      return true;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
   }
+  return refreshInFlight;
+}
+
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () =>
+    fetch(url, {
+      ...init,
+      headers: { ...init.headers, ...authHeaders() },
+      credentials: "include",
+    });
+
+  const res = await send();
+  if (res.status === 401 && localStorage.getItem("auth_refresh_token") && (await refreshAuthToken())) {
+    return send();
+  }
+  return res;
 }
 
 export async function apiRequest(
@@ -12,11 +103,22 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Sends a file as the raw request body, typed with the file's own MIME type
+export async function apiUpload(method: string, url: string, file: File): Promise<Response> {
+  const res = await fetchWithAuth(url, {
+    method,
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
   });
 
   await throwIfResNotOk(res);
@@ -29,9 +131,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      credentials: "include",
-    });
+    const res = await fetchWithAuth(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -0,0 +1,14 @@
+// Display helpers for shipping methods and addresses, shared by the admin,
+// profile and checkout views.
+export const getShippingMethodLabel = (method: string) => {
+  switch (method) {
+    case "home": return "Envío a domicilio";
+    case "branch": return "Retiro en sucursal del correo";
+    case "pickup": return "Retiro en el local";
+    default: return method;
+  }
+};
+
+// Same one-line form the server keeps on the order
+export const formatAddress = (address: { street: string; city: string; province: string; postalCode: string }) =>
+  `${address.street}, ${address.city} (${address.postalCode.toUpperCase()}), ${address.province}`;
@@ -9,7 +9,31 @@ import { Badge } from "@/components/ui/badge";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Product, OrderWithItems, adminConfigSchema, type AdminConfig } from "@shared/schema";
+import { getStatusColor, getStatusLabel } from "@/lib/order-status";
+import { getShippingMethodLabel } from "@/lib/shipping";
+import { OrderTimeline } from "@/components/orders/OrderTimeline";
+import { ProductFiles } from "@/components/products/ProductFiles";
+import { ProductLicenseKeys } from "@/components/products/ProductLicenseKeys";
+import { CouponManager } from "@/components/coupons/CouponManager";
+import { ShippingZones } from "@/components/shipping/ShippingZones";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Product,
+  OrderWithItems,
+  adminConfigSchema,
+  formatOrderNumber,
+  parseOrderNumber,
+  ORDER_STATUS_TRANSITIONS,
+  PAYMENT_METHODS,
+  type AdminCartSummary,
+  type AdminConfig,
+  type CartRecoveryReport,
+  type LicenseKeyPool,
+  type OrderStatus,
+  type Payment,
+  type AdminConfigView,
+  type SecretStatus,
+} from "@shared/schema";
 import {
   Package,
   Smartphone,
@@ -22,7 +46,16 @@ import {
   TrendingUp,
   Clock,
   Settings,
-  Save
+  Save,
+  Wallet,
+  FileText,
+  Check,
+  X,
+  RotateCcw,
+  AlertTriangle,
+  GraduationCap,
+  Search,
+  Mail
 } from "lucide-react";
 import {
   Dialog,
@@ -55,18 +88,78 @@ const productSchema = z.object({
   ageRange: z.string().min(1, "El rango de edad es requerido"),
   category: z.string().min(1, "La categoría es requerida"),
   stock: z.number().nullable(),
+  weightGrams: z.number().int().positive("Debe ser mayor a 0").nullable(),
+  lengthCm: z.number().int().positive("Debe ser mayor a 0").nullable(),
+  widthCm: z.number().int().positive("Debe ser mayor a 0").nullable(),
+  heightCm: z.number().int().positive("Debe ser mayor a 0").nullable(),
+  usesLicenseKeys: z.boolean(),
   isActive: z.boolean(),
 });
 
 type ProductForm = z.infer<typeof productSchema>;
 
+const getPaymentMethodLabel = (method: string) => {
+  switch (method) {
+    case "mercadopago": return "MercadoPago";
+    case "bank_transfer": return "Transferencia bancaria";
+    case "cash_on_pickup": return "Efectivo al retirar";
+    default: return method;
+  }
+};
+
+// Email notification switches of the config tab
+const NOTIFICATION_SETTINGS = [
+  { name: "notifyOrderReceived", label: "Al cliente, cuando recibimos su pedido" },
+  { name: "notifyPaymentApproved", label: "Al cliente, cuando se aprueba el pago (las descargas y claves se envían siempre)" },
+  { name: "notifyOrderShipped", label: "Al cliente, cuando despachamos el pedido (con el código de seguimiento)" },
+  { name: "notifyOrderDelivered", label: "Al cliente, cuando el pedido fue entregado" },
+  { name: "alertNewOrder", label: "A la tienda, por cada pedido nuevo" },
+  { name: "alertLowStock", label: "A la tienda, cuando un producto queda con poco stock" },
+] as const;
+
+// Config secrets the API only reports as saved or not
+type SecretField = "mpAccessToken" | "mpWebhookSecret" | "smtpPassword";
+
+function SavedSecretNote({ status, removing, onToggle }: {
+  status: SecretStatus | undefined;
+  removing: boolean;
+  onToggle: () => void;
+}) {
+  if (!status?.configured) return null;
+  return (
+    <p className="text-sm text-gray-500 mt-1">
+      {removing ? "Se va a quitar al guardar. " : `Guardado (${status.masked}). Dejalo vacío para conservarlo. `}
+      <button type="button" className="text-blue-600 hover:underline" onClick={onToggle}>
+        {removing ? "Deshacer" : "Quitar"}
+      </button>
+    </p>
+  );
+}
+
+const getPaymentStatusLabel = (status: string) => {
+  switch (status) {
+    case "pending": return "Pendiente";
+    case "in_review": return "Comprobante a revisar";
+    case "approved": return "Aprobado";
+    case "rejected": return "Rechazado";
+    case "cancelled": return "Cancelado";
+    case "refunded": return "Reintegrado";
+    default: return status;
+  }
+};
+
 export default function Admin() {
   const { user, logout } = useAuth();
   const { toast } = useToast();
-  const [selectedTab, setSelectedTab] = useState<"dashboard" | "products" | "orders" | "config">("dashboard");
+  const [selectedTab, setSelectedTab] = useState<"dashboard" | "products" | "orders" | "coupons" | "shipping" | "config">("dashboard");
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [isProductDialogOpen, setIsProductDialogOpen] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [refundingOrder, setRefundingOrder] = useState<OrderWithItems | null>(null);
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [refundRestock, setRefundRestock] = useState(true);
+  const [refundNote, setRefundNote] = useState("");
+  const [orderSearch, setOrderSearch] = useState("");
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
 
@@ -80,22 +173,37 @@ export default function Admin() {
     enabled: !!user?.id,
   });
 
-  const { data: adminConfig, isLoading: configLoading } = useQuery({
+  // Matches the order number as customers quote it, or part of their name or email
+  const orderSearchText = orderSearch.trim().toLowerCase();
+  const searchedOrderNumber = parseOrderNumber(orderSearch);
+  const filteredOrders = orderSearchText
+    ? orders.filter((order) =>
+        order.number === searchedOrderNumber ||
+        order.customerName.toLowerCase().includes(orderSearchText) ||
+        order.customerEmail.toLowerCase().includes(orderSearchText))
+    : orders;
+
+  const { data: licenseKeyPools = [] } = useQuery<LicenseKeyPool[]>({
+    queryKey: ["/api/admin/license-keys"],
+    enabled: !!user?.id,
+  });
+
+  const { data: activeCarts = [] } = useQuery<AdminCartSummary[]>({
+    queryKey: ["/api/admin/carts"],
+    enabled: !!user?.id,
+  });
+
+  const { data: cartRecovery } = useQuery<CartRecoveryReport>({
+    queryKey: ["/api/admin/cart-recovery"],
+    enabled: !!user?.id,
+  });
+
+  // Empty until the config is first saved
+  const { data: adminConfig, isLoading: configLoading } = useQuery<Partial<AdminConfigView>>({
     queryKey: ["/api/admin/config"],
-    queryFn: async () => {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/admin/config", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) throw new Error("Error al cargar configuración");
-      const data = await response.json();
-      console.log("Loading admin config:", data);
-      return data;
-    },
     enabled: !!user?.id,
   });
+  const [removedSecrets, setRemovedSecrets] = useState<SecretField[]>([]);
 
   // Redirect if not admin - after all hooks
   if (!user || user.role !== "admin") {
@@ -131,37 +239,81 @@ export default function Admin() {
       ageRange: "",
       category: "",
       stock: null,
+      weightGrams: null,
+      lengthCm: null,
+      widthCm: null,
+      heightCm: null,
+      usesLicenseKeys: false,
       isActive: true,
     },
   });
 
   const watchType = watch("type");
+  const watchUsesLicenseKeys = watch("usesLicenseKeys");
 
   // Admin configuration form
   const configForm = useForm<AdminConfig>({
     resolver: zodResolver(adminConfigSchema),
     defaultValues: {
-      mercadoPagoAccessToken: "",
-      mercadoPagoPublicKey: "",
-      emailGmail: "",
-      emailGmailPassword: "",
-      smtpHost: "", // Added default for smtpHost
-      smtpPort: "", // Added default for smtpPort
+      mpAccessToken: "",
+      mpPublicKey: "",
+      mpWebhookSecret: "",
+      smtpEmail: "",
+      smtpPassword: "",
+      smtpHost: "",
+      smtpPort: "",
+      enabledPaymentMethods: ["mercadopago"],
+      bankTransferCbu: "",
+      bankTransferAlias: "",
+      bankTransferHolder: "",
+      bankTransferBank: "",
+      cashPickupInstructions: "",
+      abandonedCartEnabled: false,
+      abandonedCartDelayHours: 24,
+      abandonedCartCoupon: "",
+      notifyOrderReceived: true,
+      notifyPaymentApproved: true,
+      notifyOrderShipped: true,
+      notifyOrderDelivered: true,
+      alertNewOrder: true,
+      alertLowStock: true,
+      alertEmail: "",
+      lowStockThreshold: 3,
     },
   });
+  const enabledPaymentMethods = configForm.watch("enabledPaymentMethods");
+  const abandonedCartEnabled = configForm.watch("abandonedCartEnabled");
 
   // Load existing config when data is available
   React.useEffect(() => {
     if (adminConfig && typeof adminConfig === 'object') {
-      console.log("Loading admin config:", adminConfig);
       const config = adminConfig as any;
       configForm.reset({
-        mercadoPagoAccessToken: config.mpAccessToken || "",
-        mercadoPagoPublicKey: config.mpPublicKey || "",
-        emailGmail: config.smtpEmail || "",
-        emailGmailPassword: config.smtpPassword || "",
-        smtpHost: config.smtpHost || "", // Load smtpHost
-        smtpPort: config.smtpPort || "", // Load smtpPort
+        // Secrets are never sent back; the fields take a new value only
+        mpAccessToken: "",
+        mpPublicKey: config.mpPublicKey || "",
+        mpWebhookSecret: "",
+        smtpEmail: config.smtpEmail || "",
+        smtpPassword: "",
+        smtpHost: config.smtpHost || "",
+        smtpPort: config.smtpPort || "",
+        enabledPaymentMethods: config.enabledPaymentMethods || ["mercadopago"],
+        bankTransferCbu: config.bankTransferCbu || "",
+        bankTransferAlias: config.bankTransferAlias || "",
+        bankTransferHolder: config.bankTransferHolder || "",
+        bankTransferBank: config.bankTransferBank || "",
+        cashPickupInstructions: config.cashPickupInstructions || "",
+        abandonedCartEnabled: config.abandonedCartEnabled ?? false,
+        abandonedCartDelayHours: config.abandonedCartDelayHours ?? 24,
+        abandonedCartCoupon: config.abandonedCartCoupon || "",
+        notifyOrderReceived: config.notifyOrderReceived ?? true,
+        notifyPaymentApproved: config.notifyPaymentApproved ?? true,
+        notifyOrderShipped: config.notifyOrderShipped ?? true,
+        notifyOrderDelivered: config.notifyOrderDelivered ?? true,
+        alertNewOrder: config.alertNewOrder ?? true,
+        alertLowStock: config.alertLowStock ?? true,
+        alertEmail: config.alertEmail || "",
+        lowStockThreshold: config.lowStockThreshold ?? 3,
       });
     }
   }, [adminConfig]);
@@ -175,20 +327,12 @@ export default function Admin() {
 
   const createProductMutation = useMutation({
     mutationFn: async (productData: any) => {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/products", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(productData),
-      });
-      if (!response.ok) throw new Error("Error al crear producto");
+      const response = await apiRequest("POST", "/api/products", productData);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/license-keys"] });
       toast({
         title: "Producto creado",
         description: "El producto ha sido creado exitosamente",
@@ -207,20 +351,12 @@ export default function Admin() {
 
   const updateProductMutation = useMutation({
     mutationFn: async (productData: any) => {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch(`/api/products/${editingProduct?.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(productData),
-      });
-      if (!response.ok) throw new Error("Error al actualizar producto");
+      const response = await apiRequest("PUT", `/api/products/${editingProduct?.id}`, productData);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/license-keys"] });
       toast({
         title: "Producto actualizado",
         description: "El producto ha sido actualizado exitosamente",
@@ -240,14 +376,7 @@ export default function Admin() {
 
   const deleteProductMutation = useMutation({
     mutationFn: async (productId: string) => {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch(`/api/products/${productId}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) throw new Error("Error al eliminar producto");
+      await apiRequest("DELETE", `/api/products/${productId}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
@@ -266,17 +395,13 @@ export default function Admin() {
   });
 
   const updateOrderStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: string }) => {
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch(`/api/orders/${orderId}/status`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ status }),
-      });
-      if (!response.ok) throw new Error("Error al actualizar estado");
+    mutationFn: async ({ orderId, status, note, trackingCode }: {
+      orderId: string;
+      status: string;
+      note?: string;
+      trackingCode?: string;
+    }) => {
+      const response = await apiRequest("PUT", `/api/orders/${orderId}/status`, { status, note, trackingCode });
       return response.json();
     },
     onSuccess: () => {
@@ -295,34 +420,136 @@ export default function Admin() {
     },
   });
 
-  const formatPrice = (price: string) => {
-    return new Intl.NumberFormat("es-AR", {
-      style: "currency",
-      currency: "ARS",
-      minimumFractionDigits: 0,
-    }).format(parseFloat(price));
+  const refundMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const items = Object.entries(refundQuantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+      const response = await apiRequest("POST", `/api/admin/orders/${orderId}/refunds`, {
+        items,
+        restock: refundRestock,
+        note: refundNote || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (refund) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Reembolso registrado",
+        description: refund.provider === "mercadopago"
+          ? `Se reembolsaron ${formatPrice(refund.amount)} por MercadoPago`
+          : `Devolvé ${formatPrice(refund.amount)} al cliente por el mismo medio de pago`,
+      });
+      setRefundingOrder(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRefundDialog = (order: OrderWithItems) => {
+    setRefundingOrder(order);
+    setRefundQuantities({});
+    // Units of a cancelled order are already back in stock
+    setRefundRestock(order.status !== "cancelled");
+    setRefundNote("");
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "pending": return "bg-yellow-500";
-      case "confirmed": return "bg-blue-500";
-      case "shipped": return "bg-purple-500";
-      case "delivered": return "bg-green-500";
-      default: return "bg-gray-500";
+  // As the server computes it: each refund also gives back its share of the
+  // line's coupon discount, and refunding every unit left adds the shipping
+  const refundsEverything = !!refundingOrder && refundingOrder.items.every(
+    (item) => (refundQuantities[item.id] ?? 0) === item.quantity - item.refundedQuantity,
+  );
+  const refundTotal = refundingOrder
+    ? refundingOrder.items.reduce((sum, item) => {
+        const quantity = refundQuantities[item.id] ?? 0;
+        const discountCents = Math.round(parseFloat(item.discount) * 100);
+        const discountShare = Math.floor((discountCents * (item.refundedQuantity + quantity)) / item.quantity)
+          - Math.floor((discountCents * item.refundedQuantity) / item.quantity);
+        return sum + (Math.round(parseFloat(item.price) * 100) * quantity - discountShare) / 100;
+      }, refundsEverything ? parseFloat(refundingOrder.shippingCost) : 0)
+    : 0;
+
+  const handleStatusChange = (order: OrderWithItems, status: string) => {
+    if (status === order.status) return;
+    // The tracking code goes to the buyer in the shipping email
+    let trackingCode: string | null = null;
+    if (status === "shipped" && order.shippingMethod && order.shippingMethod !== "pickup") {
+      trackingCode = window.prompt("Código de seguimiento del correo (opcional)", order.trackingCode ?? "");
+      if (trackingCode === null) return;
     }
+    const note = window.prompt(`Nota para el historial al pasar a "${getStatusLabel(status)}" (opcional)`);
+    if (note === null) return;
+    updateOrderStatusMutation.mutate({
+      orderId: order.id,
+      status,
+      note: note || undefined,
+      trackingCode: trackingCode || undefined,
+    });
   };
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "pending": return "Pendiente";
-      case "confirmed": return "Confirmado";
-      case "shipped": return "Enviado";
-      case "delivered": return "Entregado";
-      default: return status;
+  const reviewPaymentMutation = useMutation({
+    mutationFn: async ({ paymentId, approved, note }: { paymentId: string; approved: boolean; note?: string }) => {
+      const response = await apiRequest("PUT", `/api/admin/payments/${paymentId}/review`, { approved, note });
+      return response.json();
+    },
+    onSuccess: (_payment, { approved }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: approved ? "Pago aprobado" : "Pago rechazado",
+        description: approved
+          ? "El pedido fue confirmado"
+          : "El cliente puede volver a enviar el comprobante",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRejectPayment = (payment: Payment) => {
+    const note = window.prompt("Motivo del rechazo (lo verá el cliente)");
+    if (note === null) return;
+    reviewPaymentMutation.mutate({ paymentId: payment.id, approved: false, note: note || undefined });
+  };
+
+  // Receipts need the auth header, so they are fetched as a blob rather than
+  // linked directly. The window is opened first to avoid popup blockers.
+  const handleViewReceipt = async (payment: Payment) => {
+    const receiptWindow = window.open("", "_blank");
+    try {
+      const response = await apiRequest("GET", `/api/admin/payments/${payment.id}/receipt`);
+      const url = URL.createObjectURL(await response.blob());
+      if (receiptWindow) {
+        receiptWindow.location.href = url;
+      }
+    } catch (error: any) {
+      receiptWindow?.close();
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo abrir el comprobante",
+        variant: "destructive",
+      });
     }
   };
 
+  const formatPrice = (price: string) => {
+    return new Intl.NumberFormat("es-AR", {
+      style: "currency",
+      currency: "ARS",
+      minimumFractionDigits: 0,
+    }).format(parseFloat(price));
+  };
+
   const handleEditProduct = (product: Product) => {
     setEditingProduct(product);
     reset({
@@ -334,6 +561,11 @@ export default function Admin() {
       ageRange: product.ageRange,
       category: product.category,
       stock: product.stock,
+      weightGrams: product.weightGrams,
+      lengthCm: product.lengthCm,
+      widthCm: product.widthCm,
+      heightCm: product.heightCm,
+      usesLicenseKeys: product.usesLicenseKeys,
       isActive: product.isActive,
     });
     setIsProductDialogOpen(true);
@@ -349,6 +581,12 @@ export default function Admin() {
     const productData = {
       ...data,
       stock: data.type === "digital" ? null : data.stock,
+      // Digital products do not ship
+      weightGrams: data.type === "digital" ? null : data.weightGrams,
+      lengthCm: data.type === "digital" ? null : data.lengthCm,
+      widthCm: data.type === "digital" ? null : data.widthCm,
+      heightCm: data.type === "digital" ? null : data.heightCm,
+      usesLicenseKeys: data.type === "digital" && data.usesLicenseKeys,
     };
 
     if (editingProduct) {
@@ -358,35 +596,49 @@ export default function Admin() {
     }
   };
 
+  // Only secrets typed in again or marked for removal are sent; the rest
+  // keep their saved value
+  const secretUpdate = (field: SecretField, value: string | undefined) =>
+    value ? { [field]: value } : removedSecrets.includes(field) ? { [field]: null } : {};
+
+  const toggleRemovedSecret = (field: SecretField) => {
+    setRemovedSecrets((fields) => fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field]);
+  };
+
   const saveConfigMutation = useMutation({
     mutationFn: async (configData: AdminConfig) => {
       const dbData = {
-        mpAccessToken: configData.mercadoPagoAccessToken || null,
-        mpPublicKey: configData.mercadoPagoPublicKey || null,
-        smtpEmail: configData.emailGmail || null,
-        smtpPassword: configData.emailGmailPassword || null,
-        smtpHost: configData.smtpHost || null, // Include smtpHost
-        smtpPort: configData.smtpPort || null, // Include smtpPort
+        ...secretUpdate("mpAccessToken", configData.mpAccessToken),
+        mpPublicKey: configData.mpPublicKey || null,
+        ...secretUpdate("mpWebhookSecret", configData.mpWebhookSecret),
+        smtpEmail: configData.smtpEmail || null,
+        ...secretUpdate("smtpPassword", configData.smtpPassword),
+        smtpHost: configData.smtpHost || null,
+        smtpPort: configData.smtpPort || null,
+        enabledPaymentMethods: configData.enabledPaymentMethods,
+        bankTransferCbu: configData.bankTransferCbu || null,
+        bankTransferAlias: configData.bankTransferAlias || null,
+        bankTransferHolder: configData.bankTransferHolder || null,
+        bankTransferBank: configData.bankTransferBank || null,
+        cashPickupInstructions: configData.cashPickupInstructions || null,
+        abandonedCartEnabled: configData.abandonedCartEnabled,
+        abandonedCartDelayHours: configData.abandonedCartDelayHours,
+        abandonedCartCoupon: configData.abandonedCartCoupon || null,
+        notifyOrderReceived: configData.notifyOrderReceived,
+        notifyPaymentApproved: configData.notifyPaymentApproved,
+        notifyOrderShipped: configData.notifyOrderShipped,
+        notifyOrderDelivered: configData.notifyOrderDelivered,
+        alertNewOrder: configData.alertNewOrder,
+        alertLowStock: configData.alertLowStock,
+        alertEmail: configData.alertEmail || null,
+        lowStockThreshold: configData.lowStockThreshold,
       };
 
-      const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/admin/config", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`,
-        },
-        body: JSON.stringify(dbData),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Error al guardar configuración");
-      }
-
+      const response = await apiRequest("POST", "/api/admin/config", dbData);
       return response.json();
     },
     onSuccess: () => {
+      setRemovedSecrets([]);
       toast({
         title: "Configuración guardada",
         description: "Los ajustes han sido guardados correctamente",
@@ -409,6 +661,7 @@ export default function Admin() {
 
   const totalRevenue = orders.reduce((sum, order) => sum + parseFloat(order.total), 0);
   const pendingOrders = orders.filter(order => order.status === "pending").length;
+  const lowLicenseKeyPools = licenseKeyPools.filter(pool => pool.low);
   const activeProducts = products.filter(product => product.isActive).length;
 
   return (
@@ -452,6 +705,26 @@ export default function Admin() {
             >
               Pedidos
             </button>
+            <button
+              onClick={() => setSelectedTab("coupons")}
+              className={`px-6 py-4 font-medium text-sm ${
+                selectedTab === "coupons"
+                  ? "text-mint border-b-2 border-mint"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              Cupones
+            </button>
+            <button
+              onClick={() => setSelectedTab("shipping")}
+              className={`px-6 py-4 font-medium text-sm ${
+                selectedTab === "shipping"
+                  ? "text-mint border-b-2 border-mint"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              Envíos
+            </button>
             <button
               onClick={() => setSelectedTab("config")}
               className={`px-6 py-4 font-medium text-sm ${
@@ -527,6 +800,33 @@ export default function Admin() {
               </Card>
             </div>
 
+            {/* License Key Alerts */}
+            {lowLicenseKeyPools.length > 0 && (
+              <Card className="border-red-200">
+                <CardHeader>
+                  <CardTitle className="flex items-center text-red-600">
+                    <AlertTriangle className="w-5 h-5 mr-2" />
+                    Claves de licencia por agotarse
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {lowLicenseKeyPools.map((pool) => (
+                      <div key={pool.productId} className="flex items-center justify-between p-4 bg-red-50 rounded-lg">
+                        <p className="font-semibold text-gray-900">{pool.productName}</p>
+                        <div className="text-right text-sm">
+                          <p className="text-gray-700">{pool.available} disponibles</p>
+                          {pool.waiting > 0 && (
+                            <p className="text-red-600">{pool.waiting} unidades pagadas sin clave</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Recent Orders */}
             <Card>
               <CardHeader>
@@ -559,6 +859,57 @@ export default function Admin() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Active Carts */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Carritos Activos</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {cartRecovery && cartRecovery.sent > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-center" data-testid="cart-recovery-report">
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{cartRecovery.sent}</p>
+                      <p className="text-sm text-gray-600">Recordatorios enviados</p>
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{cartRecovery.restored}</p>
+                      <p className="text-sm text-gray-600">Carritos recuperados</p>
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{cartRecovery.recoveryRate}%</p>
+                      <p className="text-sm text-gray-600">Terminaron en compra ({cartRecovery.recovered})</p>
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-mint">{formatPrice(cartRecovery.recoveredRevenue)}</p>
+                      <p className="text-sm text-gray-600">Ventas recuperadas</p>
+                    </div>
+                    <p className="col-span-2 md:col-span-4 text-xs text-gray-500">Últimos {cartRecovery.days} días</p>
+                  </div>
+                )}
+                {activeCarts.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No hay carritos con productos</p>
+                ) : (
+                  <div className="space-y-4">
+                    {activeCarts.slice(0, 10).map((cart) => (
+                      <div key={cart.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                        <div>
+                          <p className="font-semibold text-gray-900">{cart.userName}</p>
+                          <p className="text-sm text-gray-600">{cart.userEmail}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold text-mint">{formatPrice(cart.total)}</p>
+                          <p className="text-sm text-gray-600">
+                            {cart.itemCount} {cart.itemCount === 1 ? "producto" : "productos"} ·{" "}
+                            {new Date(cart.updatedAt).toLocaleDateString("es-AR")}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
         )}
 
@@ -642,6 +993,43 @@ export default function Admin() {
                       </div>
                     )}
 
+                    {watchType === "physical" && (
+                      <div>
+                        <Label className="block mb-2">Paquete (para calcular el envío)</Label>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          {([
+                            ["weightGrams", "Peso (g)"],
+                            ["lengthCm", "Largo (cm)"],
+                            ["widthCm", "Ancho (cm)"],
+                            ["heightCm", "Alto (cm)"],
+                          ] as const).map(([field, label]) => (
+                            <div key={field}>
+                              <Label htmlFor={field} className="text-sm font-normal">{label}</Label>
+                              <Input
+                                id={field}
+                                type="number"
+                                min={1}
+                                {...register(field, { setValueAs: (value) => (value === "" || value === null ? null : Number(value)) })}
+                              />
+                              {errors[field] && <p className="text-red-500 text-sm">{errors[field]?.message}</p>}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {watchType === "digital" && (
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          id="usesLicenseKeys"
+                          data-testid="checkbox-uses-license-keys"
+                          checked={watchUsesLicenseKeys}
+                          onCheckedChange={(checked) => setValue("usesLicenseKeys", checked === true)}
+                        />
+                        <Label htmlFor="usesLicenseKeys">Entrega una clave de licencia al pagarse</Label>
+                      </div>
+                    )}
+
                     <div>
                       <Label htmlFor="imageUrl">URL de Imagen</Label>
                       <Input id="imageUrl" {...register("imageUrl")} />
@@ -668,6 +1056,27 @@ export default function Admin() {
                       </Button>
                     </div>
                   </form>
+
+                  {watchType === "digital" && (
+                    editingProduct ? (
+                      <>
+                        <ProductFiles productId={editingProduct.id} />
+                        {editingProduct.usesLicenseKeys && <ProductLicenseKeys productId={editingProduct.id} />}
+                        <div className="border-t pt-4">
+                          <Link href={`/admin/courses/${editingProduct.id}`}>
+                            <Button type="button" variant="outline">
+                              <GraduationCap className="w-4 h-4 mr-2" />
+                              Gestionar contenido del curso
+                            </Button>
+                          </Link>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-500 border-t pt-4">
+                        Guardá el producto para poder subir sus archivos y claves de licencia.
+                      </p>
+                    )
+                  )}
                 </DialogContent>
               </Dialog>
             </div>
@@ -747,7 +1156,19 @@ export default function Admin() {
         {/* Orders Tab */}
         {selectedTab === "orders" && (
           <div className="space-y-6">
-            <h2 className="text-2xl font-bold text-gray-900">Gestión de Pedidos</h2>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <h2 className="text-2xl font-bold text-gray-900">Gestión de Pedidos</h2>
+              <div className="relative sm:w-80">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <Input
+                  value={orderSearch}
+                  onChange={(e) => setOrderSearch(e.target.value)}
+                  placeholder="Buscar por número, nombre o email"
+                  className="pl-9"
+                  data-testid="input-order-search"
+                />
+              </div>
+            </div>
 
             {ordersLoading ? (
               <div className="flex justify-center py-12">
@@ -760,38 +1181,116 @@ export default function Admin() {
                   <p className="text-xl text-gray-600">No hay pedidos disponibles</p>
                 </CardContent>
               </Card>
+            ) : filteredOrders.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <Search className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                  <p className="text-xl text-gray-600">Ningún pedido coincide con "{orderSearch.trim()}"</p>
+                </CardContent>
+              </Card>
             ) : (
               <div className="space-y-6">
-                {orders.map((order) => (
+                {filteredOrders.map((order) => (
                   <Card key={order.id}>
                     <CardContent className="p-6">
                       <div className="flex items-start justify-between mb-4">
                         <div>
                           <h3 className="text-lg font-semibold text-gray-900">
-                            Pedido #{order.id.slice(-8)}
+                            Pedido {formatOrderNumber(order.number)}
                           </h3>
                           <p className="text-gray-600">{order.customerName}</p>
                           <p className="text-gray-600 text-sm">{order.customerEmail}</p>
                           <p className="text-gray-600 text-sm">{order.customerPhone}</p>
-                          <p className="text-gray-600 text-sm">{order.shippingAddress}</p>
+                          {order.shippingMethod ? (
+                            <p className="text-gray-600 text-sm">
+                              {getShippingMethodLabel(order.shippingMethod)}
+                              {order.shippingAddress && `: ${order.shippingAddress}`}
+                            </p>
+                          ) : (
+                            <p className="text-gray-600 text-sm">Sin envío (productos digitales)</p>
+                          )}
+                          {order.trackingCode && (
+                            <p className="text-gray-600 text-sm">Seguimiento: {order.trackingCode}</p>
+                          )}
+                          {order.payment && (
+                            <div className="mt-2 flex items-center gap-2 flex-wrap">
+                              <span className="text-sm text-gray-600">
+                                {getPaymentMethodLabel(order.payment.method)}:
+                              </span>
+                              <Badge variant="outline" data-testid={`badge-payment-status-${order.id}`}>
+                                {getPaymentStatusLabel(order.payment.status)}
+                              </Badge>
+                              {parseFloat(order.payment.refundedAmount) > 0 && (
+                                <span className="text-sm text-gray-600">
+                                  Reembolsado: {formatPrice(order.payment.refundedAmount)}
+                                </span>
+                              )}
+                              {order.payment.receiptPath && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleViewReceipt(order.payment!)}
+                                >
+                                  <FileText className="w-4 h-4 mr-1" />
+                                  Ver comprobante
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                          {order.payment && order.payment.method !== "mercadopago" &&
+                            ["pending", "in_review"].includes(order.payment.status) && (
+                            <div className="mt-2 flex gap-2">
+                              <Button
+                                size="sm"
+                                data-testid={`button-approve-payment-${order.id}`}
+                                onClick={() => reviewPaymentMutation.mutate({ paymentId: order.payment!.id, approved: true })}
+                                disabled={reviewPaymentMutation.isPending}
+                              >
+                                <Check className="w-4 h-4 mr-1" />
+                                {order.payment.method === "cash_on_pickup" ? "Marcar como pagado" : "Aprobar pago"}
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                data-testid={`button-reject-payment-${order.id}`}
+                                onClick={() => handleRejectPayment(order.payment!)}
+                                disabled={reviewPaymentMutation.isPending}
+                              >
+                                <X className="w-4 h-4 mr-1" />
+                                Rechazar
+                              </Button>
+                            </div>
+                          )}
+                          {order.payment?.status === "approved" &&
+                            order.items.some((item) => item.quantity > item.refundedQuantity) && (
+                            <div className="mt-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                data-testid={`button-refund-order-${order.id}`}
+                                onClick={() => openRefundDialog(order)}
+                              >
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                                Reembolsar
+                              </Button>
+                            </div>
+                          )}
                         </div>
                         <div className="text-right">
                           <p className="text-2xl font-bold text-mint">{formatPrice(order.total)}</p>
                           <div className="mt-2">
                             <Select
-                              defaultValue={order.status}
-                              onValueChange={(status) =>
-                                updateOrderStatusMutation.mutate({ orderId: order.id, status })
-                              }
+                              value={order.status}
+                              onValueChange={(status) => handleStatusChange(order, status)}
+                              disabled={ORDER_STATUS_TRANSITIONS[order.status as OrderStatus]?.length === 0}
                             >
-                              <SelectTrigger className="w-32">
+                              <SelectTrigger className="w-36">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="pending">Pendiente</SelectItem>
-                                <SelectItem value="confirmed">Confirmado</SelectItem>
-                                <SelectItem value="shipped">Enviado</SelectItem>
-                                <SelectItem value="delivered">Entregado</SelectItem>
+                                {[order.status, ...(ORDER_STATUS_TRANSITIONS[order.status as OrderStatus] ?? [])].map((status) => (
+                                  <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
@@ -811,7 +1310,10 @@ export default function Admin() {
                                 />
                                 <div>
                                   <p className="font-medium">{item.product.name}</p>
-                                  <p className="text-sm text-gray-600">Cantidad: {item.quantity}</p>
+                                  <p className="text-sm text-gray-600">
+                                    Cantidad: {item.quantity}
+                                    {item.refundedQuantity > 0 && ` (reembolsado: ${item.refundedQuantity})`}
+                                  </p>
                                 </div>
                               </div>
                               <p className="font-semibold text-mint">
@@ -819,8 +1321,27 @@ export default function Admin() {
                               </p>
                             </div>
                           ))}
+                          {parseFloat(order.discount) > 0 && (
+                            <div className="flex items-center justify-between text-sm text-gray-600">
+                              <span>Descuento (cupón {order.couponCode})</span>
+                              <span>-{formatPrice(order.discount)}</span>
+                            </div>
+                          )}
+                          {order.shippingMethod && (
+                            <div className="flex items-center justify-between text-sm text-gray-600">
+                              <span>Envío</span>
+                              <span>{parseFloat(order.shippingCost) > 0 ? formatPrice(order.shippingCost) : "Gratis"}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
+
+                      {order.statusHistory.length > 0 && (
+                        <div className="border-t pt-4 mt-4">
+                          <h4 className="font-semibold text-gray-900 mb-3">Historial:</h4>
+                          <OrderTimeline history={order.statusHistory} showAuthor />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
@@ -829,6 +1350,83 @@ export default function Admin() {
           </div>
         )}
 
+        <Dialog open={!!refundingOrder} onOpenChange={(open) => !open && setRefundingOrder(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Reembolsar pedido {refundingOrder && formatOrderNumber(refundingOrder.number)}</DialogTitle>
+            </DialogHeader>
+
+            {refundingOrder && (
+              <div className="space-y-4">
+                {refundingOrder.items.map((item) => {
+                  const available = item.quantity - item.refundedQuantity;
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{item.product.name}</p>
+                        <p className="text-sm text-gray-600">
+                          {formatPrice(item.price)} c/u · disponibles: {available}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={available}
+                        disabled={available === 0}
+                        className="w-20"
+                        value={refundQuantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setRefundQuantities({
+                            ...refundQuantities,
+                            [item.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), available),
+                          })
+                        }
+                      />
+                    </div>
+                  );
+                })}
+
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id="refund-restock"
+                    checked={refundRestock}
+                    disabled={refundingOrder.status === "cancelled"}
+                    onCheckedChange={(checked) => setRefundRestock(checked === true)}
+                  />
+                  <Label htmlFor="refund-restock">Reponer stock de productos físicos</Label>
+                </div>
+
+                <div>
+                  <Label htmlFor="refund-note">Nota</Label>
+                  <Textarea
+                    id="refund-note"
+                    value={refundNote}
+                    onChange={(e) => setRefundNote(e.target.value)}
+                    placeholder="Motivo del reembolso"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between border-t pt-4">
+                  <span className="font-semibold">Total a reembolsar: {formatPrice(refundTotal.toString())}</span>
+                  <Button
+                    className="btn-gradient text-white"
+                    disabled={refundTotal === 0 || refundMutation.isPending}
+                    onClick={() => refundMutation.mutate(refundingOrder.id)}
+                  >
+                    {refundMutation.isPending ? <LoadingSpinner size="sm" /> : "Reembolsar"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Coupons Tab */}
+        {selectedTab === "coupons" && <CouponManager products={products} />}
+
+        {/* Shipping Tab */}
+        {selectedTab === "shipping" && <ShippingZones />}
+
         {/* Configuration Tab */}
         {selectedTab === "config" && (
           <div className="space-y-6">
@@ -860,36 +1458,157 @@ export default function Admin() {
 
                     <div className="grid md:grid-cols-2 gap-4">
                       <div>
-                        <Label htmlFor="mercadoPagoAccessToken">MercadoPago Access Token</Label>
+                        <Label htmlFor="mpAccessToken">MercadoPago Access Token</Label>
                         <Input
-                          id="mercadoPagoAccessToken"
+                          id="mpAccessToken"
                           data-testid="input-mercadopago-access-token"
                           type="password"
-                          placeholder="Tu Access Token de MercadoPago"
-                          {...configForm.register("mercadoPagoAccessToken")}
+                          placeholder={adminConfig?.mpAccessToken?.configured ? "Nuevo Access Token" : "Tu Access Token de MercadoPago"}
+                          {...configForm.register("mpAccessToken")}
                         />
-                        {configForm.formState.errors.mercadoPagoAccessToken && (
+                        <SavedSecretNote
+                          status={adminConfig?.mpAccessToken}
+                          removing={removedSecrets.includes("mpAccessToken")}
+                          onToggle={() => toggleRemovedSecret("mpAccessToken")}
+                        />
+                        {configForm.formState.errors.mpAccessToken && (
                           <p className="text-sm text-red-500 mt-1">
-                            {configForm.formState.errors.mercadoPagoAccessToken.message}
+                            {configForm.formState.errors.mpAccessToken.message}
                           </p>
                         )}
                       </div>
 
                       <div>
-                        <Label htmlFor="mercadoPagoPublicKey">MercadoPago Public Key</Label>
+                        <Label htmlFor="mpPublicKey">MercadoPago Public Key</Label>
                         <Input
-                          id="mercadoPagoPublicKey"
+                          id="mpPublicKey"
                           data-testid="input-mercadopago-public-key"
                           type="text"
                           placeholder="Tu Public Key de MercadoPago"
-                          {...configForm.register("mercadoPagoPublicKey")}
+                          {...configForm.register("mpPublicKey")}
+                        />
+                        {configForm.formState.errors.mpPublicKey && (
+                          <p className="text-sm text-red-500 mt-1">
+                            {configForm.formState.errors.mpPublicKey.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <Label htmlFor="mpWebhookSecret">Clave secreta de notificaciones (Webhooks)</Label>
+                        <Input
+                          id="mpWebhookSecret"
+                          data-testid="input-mercadopago-webhook-secret"
+                          type="password"
+                          placeholder={adminConfig?.mpWebhookSecret?.configured ? "Nueva clave secreta" : "Clave secreta de Webhooks de tu aplicación en MercadoPago"}
+                          {...configForm.register("mpWebhookSecret")}
+                        />
+                        <SavedSecretNote
+                          status={adminConfig?.mpWebhookSecret}
+                          removing={removedSecrets.includes("mpWebhookSecret")}
+                          onToggle={() => toggleRemovedSecret("mpWebhookSecret")}
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Se usa para verificar que las notificaciones de pago provienen de MercadoPago.
+                          En producción es obligatoria: sin ella las notificaciones se rechazan.
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Payment Methods Section */}
+                  <div className="space-y-4 border-t pt-8">
+                    <div className="flex items-center gap-2 mb-4">
+                      <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center">
+                        <Wallet className="w-5 h-5 text-yellow-600" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-gray-900">Métodos de Pago</h3>
+                    </div>
+
+                    <p className="text-sm text-gray-600">
+                      Elegí qué métodos se ofrecen en el checkout. Un método habilitado solo se muestra si tiene su configuración completa.
+                    </p>
+
+                    <div className="space-y-3">
+                      {PAYMENT_METHODS.map((method) => (
+                        <div key={method} className="flex items-center gap-3">
+                          <Checkbox
+                            id={`payment-method-${method}`}
+                            data-testid={`checkbox-payment-method-${method}`}
+                            checked={enabledPaymentMethods.includes(method)}
+                            onCheckedChange={(checked) =>
+                              configForm.setValue(
+                                "enabledPaymentMethods",
+                                checked
+                                  ? [...enabledPaymentMethods, method]
+                                  : enabledPaymentMethods.filter((enabled) => enabled !== method),
+                                { shouldDirty: true },
+                              )
+                            }
+                          />
+                          <Label htmlFor={`payment-method-${method}`}>{getPaymentMethodLabel(method)}</Label>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-4 pt-2">
+                      <div>
+                        <Label htmlFor="bankTransferCbu">CBU</Label>
+                        <Input
+                          id="bankTransferCbu"
+                          data-testid="input-bank-transfer-cbu"
+                          type="text"
+                          inputMode="numeric"
+                          placeholder="22 dígitos"
+                          {...configForm.register("bankTransferCbu")}
                         />
-                        {configForm.formState.errors.mercadoPagoPublicKey && (
+                        {configForm.formState.errors.bankTransferCbu && (
                           <p className="text-sm text-red-500 mt-1">
-                            {configForm.formState.errors.mercadoPagoPublicKey.message}
+                            {configForm.formState.errors.bankTransferCbu.message}
                           </p>
                         )}
                       </div>
+
+                      <div>
+                        <Label htmlFor="bankTransferAlias">Alias</Label>
+                        <Input
+                          id="bankTransferAlias"
+                          data-testid="input-bank-transfer-alias"
+                          type="text"
+                          placeholder="mi.tienda.alias"
+                          {...configForm.register("bankTransferAlias")}
+                        />
+                      </div>
+
+                      <div>
+                        <Label htmlFor="bankTransferHolder">Titular de la cuenta</Label>
+                        <Input
+                          id="bankTransferHolder"
+                          data-testid="input-bank-transfer-holder"
+                          type="text"
+                          {...configForm.register("bankTransferHolder")}
+                        />
+                      </div>
+
+                      <div>
+                        <Label htmlFor="bankTransferBank">Banco</Label>
+                        <Input
+                          id="bankTransferBank"
+                          data-testid="input-bank-transfer-bank"
+                          type="text"
+                          {...configForm.register("bankTransferBank")}
+                        />
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <Label htmlFor="cashPickupInstructions">Retiro y pago en efectivo</Label>
+                        <Textarea
+                          id="cashPickupInstructions"
+                          data-testid="input-cash-pickup-instructions"
+                          placeholder="Dirección y horarios de retiro"
+                          {...configForm.register("cashPickupInstructions")}
+                        />
+                      </div>
                     </div>
                   </div>
 
@@ -904,33 +1623,38 @@ export default function Admin() {
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div>
-                        <Label htmlFor="emailGmail">Email Gmail</Label>
+                        <Label htmlFor="smtpEmail">Email Gmail</Label>
                         <Input
-                          id="emailGmail"
+                          id="smtpEmail"
                           data-testid="input-email-gmail"
                           type="email"
                           placeholder="tu-email@gmail.com"
-                          {...configForm.register("emailGmail")}
+                          {...configForm.register("smtpEmail")}
                         />
-                        {configForm.formState.errors.emailGmail && (
+                        {configForm.formState.errors.smtpEmail && (
                           <p className="text-sm text-red-500 mt-1">
-                            {configForm.formState.errors.emailGmail.message}
+                            {configForm.formState.errors.smtpEmail.message}
                           </p>
                         )}
                       </div>
 
                       <div>
-                        <Label htmlFor="emailGmailPassword">Contraseña de aplicación Gmail</Label>
+                        <Label htmlFor="smtpPassword">Contraseña de aplicación Gmail</Label>
                         <Input
-                          id="emailGmailPassword"
+                          id="smtpPassword"
                           data-testid="input-email-gmail-password"
                           type="password"
-                          placeholder="Contraseña de aplicación de Gmail"
-                          {...configForm.register("emailGmailPassword")}
+                          placeholder={adminConfig?.smtpPassword?.configured ? "Nueva contraseña" : "Contraseña de aplicación de Gmail"}
+                          {...configForm.register("smtpPassword")}
+                        />
+                        <SavedSecretNote
+                          status={adminConfig?.smtpPassword}
+                          removing={removedSecrets.includes("smtpPassword")}
+                          onToggle={() => toggleRemovedSecret("smtpPassword")}
                         />
-                        {configForm.formState.errors.emailGmailPassword && (
+                        {configForm.formState.errors.smtpPassword && (
                           <p className="text-sm text-red-500 mt-1">
-                            {configForm.formState.errors.emailGmailPassword.message}
+                            {configForm.formState.errors.smtpPassword.message}
                           </p>
                         )}
                       </div>
@@ -969,6 +1693,112 @@ export default function Admin() {
                     </div>
                   </div>
 
+                  {/* Abandoned Cart Section */}
+                  <div className="space-y-4 border-t pt-8">
+                    <div className="flex items-center gap-2 mb-4">
+                      <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center">
+                        <ShoppingCart className="w-5 h-5 text-yellow-600" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-gray-900">Carritos abandonados</h3>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        id="abandonedCartEnabled"
+                        data-testid="checkbox-abandoned-cart-enabled"
+                        checked={abandonedCartEnabled}
+                        onCheckedChange={(checked) => configForm.setValue("abandonedCartEnabled", checked === true)}
+                      />
+                      <Label htmlFor="abandonedCartEnabled">
+                        Enviar un recordatorio por email a los usuarios registrados que dejan productos en el carrito
+                      </Label>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <Label htmlFor="abandonedCartDelayHours">Horas de inactividad antes del recordatorio</Label>
+                        <Input
+                          id="abandonedCartDelayHours"
+                          data-testid="input-abandoned-cart-delay"
+                          type="number"
+                          min={1}
+                          {...configForm.register("abandonedCartDelayHours", { valueAsNumber: true })}
+                        />
+                        {configForm.formState.errors.abandonedCartDelayHours && (
+                          <p className="text-sm text-red-500 mt-1">
+                            {configForm.formState.errors.abandonedCartDelayHours.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div>
+                        <Label htmlFor="abandonedCartCoupon">Cupón a ofrecer (opcional)</Label>
+                        <Input
+                          id="abandonedCartCoupon"
+                          data-testid="input-abandoned-cart-coupon"
+                          placeholder="VOLVE10"
+                          {...configForm.register("abandonedCartCoupon")}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Email Notifications Section */}
+                  <div className="space-y-4 border-t pt-8">
+                    <div className="flex items-center gap-2 mb-4">
+                      <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center">
+                        <Mail className="w-5 h-5 text-blue-600" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-gray-900">Notificaciones por email</h3>
+                    </div>
+
+                    {NOTIFICATION_SETTINGS.map((setting) => (
+                      <div key={setting.name} className="flex items-center gap-3">
+                        <Checkbox
+                          id={setting.name}
+                          data-testid={`checkbox-${setting.name}`}
+                          checked={configForm.watch(setting.name)}
+                          onCheckedChange={(checked) => configForm.setValue(setting.name, checked === true)}
+                        />
+                        <Label htmlFor={setting.name}>{setting.label}</Label>
+                      </div>
+                    ))}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <Label htmlFor="alertEmail">Email para los avisos a la tienda</Label>
+                        <Input
+                          id="alertEmail"
+                          data-testid="input-alert-email"
+                          type="email"
+                          placeholder="Si lo dejás vacío, se usa el email SMTP"
+                          {...configForm.register("alertEmail")}
+                        />
+                        {configForm.formState.errors.alertEmail && (
+                          <p className="text-sm text-red-500 mt-1">
+                            {configForm.formState.errors.alertEmail.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div>
+                        <Label htmlFor="lowStockThreshold">Avisar con stock igual o menor a</Label>
+                        <Input
+                          id="lowStockThreshold"
+                          data-testid="input-low-stock-threshold"
+                          type="number"
+                          min={0}
+                          {...configForm.register("lowStockThreshold", { valueAsNumber: true })}
+                        />
+                        {configForm.formState.errors.lowStockThreshold && (
+                          <p className="text-sm text-red-500 mt-1">
+                            {configForm.formState.errors.lowStockThreshold.message}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Save Button */}
                   <div className="flex justify-end pt-6 border-t">
                     <Button
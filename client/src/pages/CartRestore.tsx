@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams, useSearch } from "wouter";
+import { useCart } from "@/contexts/CartContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/queryClient";
+import type { RestoredCart } from "@shared/schema";
+import { XCircle } from "lucide-react";
+
+// Landing page of the link in abandoned cart emails: puts the products back
+// in the cart and continues to checkout
+export default function CartRestore() {
+  const { id } = useParams<{ id: string }>();
+  const signature = new URLSearchParams(useSearch()).get("signature") ?? "";
+  const { restoreItems } = useCart();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: restored, error } = useQuery<RestoredCart>({
+    queryKey: [`/api/cart-reminders/${id}/restore?signature=${encodeURIComponent(signature)}`],
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!restored) return;
+
+    restoreItems(restored.items);
+    toast({
+      title: "Recuperamos tu carrito",
+      description: restored.couponCode
+        ? `Cargamos el cupón ${restored.couponCode} en tu compra`
+        : "Revisá tus productos y finalizá tu compra",
+    });
+    setLocation(restored.couponCode ? `/checkout?coupon=${encodeURIComponent(restored.couponCode)}` : "/checkout");
+  }, [restored]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Card>
+            <CardContent className="text-center py-12">
+              <XCircle className="w-16 h-16 mx-auto mb-4 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">No pudimos recuperar tu carrito</h1>
+              <p className="text-gray-600 mb-8">
+                {errorMessage(error, "El enlace no es válido")}
+              </p>
+              <Link href="/products">
+                <Button className="btn-gradient text-white">Ver Productos</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <LoadingSpinner size="lg" />
+    </div>
+  );
+}
@@ -1,28 +1,63 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useCart } from "@/contexts/CartContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CartNotices } from "@/components/cart/CartNotices";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
-import { Product } from "@shared/schema";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Product,
+  ARGENTINE_PROVINCES,
+  shippingAddressSchema,
+  type CouponQuote,
+  type OrderLineError,
+  type PaymentMethodId,
+  type PaymentMethodOption,
+  type ShippingMethod,
+  type ShippingOption,
+  type ShippingQuote,
+  type UserAddress,
+  type UserAddressInput,
+} from "@shared/schema";
 import { CheckoutForm } from "@/types";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorBody, apiRequest, errorMessage } from "@/lib/queryClient";
+import { formatAddress, getShippingMethodLabel } from "@/lib/shipping";
 import { useToast } from "@/hooks/use-toast";
-import { Link, useLocation } from "wouter";
-import { ArrowLeft, ShoppingCart, CreditCard } from "lucide-react";
+import { Link, useLocation, useSearch } from "wouter";
+import { ArrowLeft, ShoppingCart, CreditCard, AlertCircle, Tag, Truck } from "lucide-react";
 
 const checkoutSchema = z.object({
   customerName: z.string().min(1, "El nombre es requerido"),
   customerEmail: z.string().email("Email inválido"),
   customerPhone: z.string().min(1, "El teléfono es requerido"),
-  shippingAddress: z.string().min(1, "La dirección es requerida"),
 });
 
+// Carts with physical products also need where to ship them
+const shippingCheckoutSchema = checkoutSchema.merge(shippingAddressSchema);
+
+// Always offered when something ships; the server does not quote it
+const pickupOption: ShippingOption = {
+  method: "pickup",
+  label: getShippingMethodLabel("pickup"),
+  cost: "0",
+  deliveryTime: null,
+};
+
 declare global {
   interface Window {
     MercadoPago: any;
@@ -32,18 +67,40 @@ declare global {
 export default function Checkout() {
   const [, setLocation] = useLocation();
   const { items, getCartTotal, getCartItemsWithProducts, clearCart } = useCart();
+  const { user, addresses, defaultAddress } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [paymentMethod, setPaymentMethod] = useState<"mercadopago">("mercadopago");
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethodId | null>(null);
   const [mpLoaded, setMpLoaded] = useState(false);
   const [mpInstance, setMpInstance] = useState<any>(null);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
-
+  const [lineErrors, setLineErrors] = useState<OrderLineError[]>([]);
+  // Coupon links (e.g. from the abandoned cart email) arrive as ?coupon=CODE
+  const couponParam = new URLSearchParams(useSearch()).get("coupon") ?? "";
+  const [couponInput, setCouponInput] = useState(couponParam);
+  const [appliedCoupon, setAppliedCoupon] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const couponParamApplied = useRef(false);
+  const [selectedShipping, setSelectedShipping] = useState<ShippingMethod | null>(null);
+  // Read by the form resolver, which is created once
+  const needsAddressRef = useRef(false);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [saveAddress, setSaveAddress] = useState(true);
+  // Saved to the address book once the order goes through
+  const addressToSave = useRef<UserAddressInput | null>(null);
+  const prefilled = useRef(false);
 
   const { data: products = [], isLoading } = useQuery<Product[]>({
     queryKey: ["/api/products"],
   });
 
+  const { data: paymentMethods = [], isLoading: methodsLoading } = useQuery<PaymentMethodOption[]>({
+    queryKey: ["/api/payment-methods"],
+  });
+
+  // Only methods the admin has enabled are offered; default to the first one
+  const paymentMethod = selectedMethod ?? paymentMethods[0]?.id ?? null;
+
   // Get MercadoPago configuration
   const { data: mpConfig } = useQuery({
     queryKey: ["/api/mercadopago/config"],
@@ -56,16 +113,62 @@ export default function Checkout() {
   const {
     register,
     handleSubmit,
+    getValues,
+    setValue,
+    watch,
     formState: { errors },
   } = useForm<CheckoutForm>({
-    resolver: zodResolver(checkoutSchema),
+    resolver: (values, context, options) =>
+      zodResolver(needsAddressRef.current ? shippingCheckoutSchema : checkoutSchema)(values, context, options),
     defaultValues: {
       customerName: "",
       customerEmail: "",
       customerPhone: "",
-      shippingAddress: "",
+      street: "",
+      city: "",
+      province: "",
+      postalCode: "",
     },
   });
+  const province = watch("province");
+  const [street, city, postalCode] = watch(["street", "city", "postalCode"]);
+
+  // Picking a saved address replaces what was typed; the automatic prefill
+  // only fills what is still empty
+  const applyAddress = (address: UserAddress, onlyEmpty = false) => {
+    const values: Partial<CheckoutForm> = {
+      customerName: address.recipientName,
+      customerPhone: address.phone,
+      street: address.street,
+      city: address.city,
+      province: address.province,
+      postalCode: address.postalCode,
+    };
+    for (const [field, value] of Object.entries(values) as [keyof CheckoutForm, string][]) {
+      if (!onlyEmpty || !getValues(field)) {
+        setValue(field, value, { shouldValidate: !onlyEmpty });
+      }
+    }
+    setSelectedAddressId(address.id);
+  };
+
+  useEffect(() => {
+    if (!user || prefilled.current) return;
+    if (!getValues("customerEmail")) setValue("customerEmail", user.email);
+    if (!getValues("customerName")) setValue("customerName", user.name);
+    // The saved addresses arrive after the user
+    if (defaultAddress) {
+      prefilled.current = true;
+      applyAddress(defaultAddress, true);
+    }
+  }, [user, defaultAddress]);
+
+  const sameAddress = (address: UserAddress) =>
+    address.street.trim().toLowerCase() === street.trim().toLowerCase()
+    && address.city.trim().toLowerCase() === city.trim().toLowerCase()
+    && address.province === province
+    && address.postalCode.toUpperCase() === postalCode.trim().toUpperCase();
+  const addressIsSaved = addresses.some(sameAddress);
 
   // Load MercadoPago SDK
   useEffect(() => {
@@ -84,12 +187,14 @@ export default function Checkout() {
   }, [mpConfig, mpLoaded]);
 
   const createMercadoPagoPayment = useMutation({
-    mutationFn: async (orderData: any) => {
-      const response = await apiRequest("POST", "/api/mercadopago/create-payment", orderData);
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest("POST", "/api/mercadopago/create-payment", { orderId });
       return response.json();
     },
     onSuccess: (data) => {
       if (data.init_point) {
+        // The order is already saved as pending; the cart is no longer needed
+        clearCart();
         // Redirect to MercadoPago checkout
         window.location.href = data.init_point;
       }
@@ -108,25 +213,131 @@ export default function Checkout() {
       const response = await apiRequest("POST", "/api/orders", orderData);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (order) => {
+      setLineErrors([]);
+      if (addressToSave.current) {
+        // A convenience only: the order is placed whether or not this works
+        apiRequest("POST", "/api/addresses", addressToSave.current)
+          .then(() => queryClient.invalidateQueries({ queryKey: ["/api/addresses"] }))
+          .catch((error) => console.error("Could not save the address:", error));
+        addressToSave.current = null;
+      }
+      if (order.paymentMethod === "mercadopago") {
+        createMercadoPagoPayment.mutate(order.id);
+        return;
+      }
+      // Offline methods: show how to pay (and where to upload the receipt)
       toast({
-        title: "¡Pedido confirmado!",
-        description: "Tu pedido ha sido creado exitosamente",
+        title: "¡Pedido registrado!",
+        description: "Seguí las instrucciones para completar el pago",
       });
       clearCart();
-      setLocation("/");
+      setLocation(`/orders/${order.id}/payment`);
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
+      const details = apiErrorBody(error)?.errors;
+      if ((details as { field?: string } | undefined)?.field === "couponCode") {
+        // The coupon ran out or expired since it was applied
+        setAppliedCoupon(null);
+        setCouponError(errorMessage(error, "El cupón ya no es válido"));
+        toast({
+          title: "Revisa tu cupón",
+          description: errorMessage(error, "El cupón ya no es válido"),
+          variant: "destructive",
+        });
+        return;
+      }
+      if (Array.isArray(details) && details[0]?.code) {
+        // Per-line stock/availability problems: show them next to each item
+        setLineErrors(details as OrderLineError[]);
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        toast({
+          title: "Revisa tu pedido",
+          description: errorMessage(error, "Algunos productos no están disponibles"),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
-        description: error.message || "Error al crear el pedido",
+        description: errorMessage(error, "Error al crear el pedido"),
         variant: "destructive",
       });
     },
   });
 
+  // The preview only; the server applies the coupon again when the order is placed
+  const validateCouponMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const email = getValues("customerEmail");
+      const response = await apiRequest("POST", "/api/coupons/validate", {
+        code,
+        items: items.map(({ productId, quantity }) => ({ productId, quantity })),
+        // Lets the per-customer usage limit be checked before the order
+        customerEmail: checkoutSchema.shape.customerEmail.safeParse(email).success ? email : undefined,
+      });
+      return response.json() as Promise<CouponQuote>;
+    },
+    onSuccess: (quote) => {
+      setAppliedCoupon(quote);
+      setCouponInput(quote.code);
+      setCouponError(null);
+    },
+    onError: (error: Error) => {
+      setAppliedCoupon(null);
+      setCouponError(errorMessage(error, "No pudimos aplicar el cupón"));
+    },
+  });
+
+  const removeCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput("");
+    setCouponError(null);
+  };
+
+  // The discount depends on the cart, so it is worked out again on every change
+  useEffect(() => {
+    if (appliedCoupon && items.length > 0) {
+      validateCouponMutation.mutate(appliedCoupon.code);
+    }
+  }, [items]);
+
+  useEffect(() => {
+    if (couponParam && !couponParamApplied.current && !isLoading && items.length > 0) {
+      couponParamApplied.current = true;
+      validateCouponMutation.mutate(couponParam);
+    }
+  }, [couponParam, isLoading, items]);
+
   const cartItems = getCartItemsWithProducts(products);
-  const total = getCartTotal(products);
+  const ships = cartItems.some(({ product }) => product.type === "physical");
+  // Paying cash on pickup means collecting the order at the shop
+  const pickupOnly = paymentMethods.find((method) => method.id === paymentMethod)?.pickupOnly ?? false;
+  const pickup = ships && (pickupOnly || selectedShipping === "pickup");
+  const needsAddress = ships && !pickup;
+  needsAddressRef.current = needsAddress;
+
+  const { data: shippingQuote, isFetching: shippingLoading } = useQuery<ShippingQuote>({
+    queryKey: ["/api/shipping/quote", province, items],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/shipping/quote", {
+        items: items.map(({ productId, quantity }) => ({ productId, quantity })),
+        province,
+      });
+      return response.json();
+    },
+    enabled: needsAddress && !!province,
+  });
+  const shippingOptions = needsAddress && province ? shippingQuote?.options ?? [] : [];
+  // Keep the buyer's choice while it is still offered, else the first option
+  const shippingOption = pickup
+    ? pickupOption
+    : shippingOptions.find((option) => option.method === selectedShipping) ?? shippingOptions[0];
+
+  const subtotal = getCartTotal(products);
+  const discount = appliedCoupon ? parseFloat(appliedCoupon.discount) : 0;
+  const shippingCost = shippingOption && !appliedCoupon?.freeShipping ? parseFloat(shippingOption.cost) : 0;
+  const total = Math.max(subtotal - discount, 0) + shippingCost;
 
   const formatPrice = (price: string) => {
     return new Intl.NumberFormat("es-AR", {
@@ -136,39 +347,43 @@ export default function Checkout() {
     }).format(parseFloat(price));
   };
 
-  const onSubmit = async (data: CheckoutForm) => {
+  const onSubmit = async ({ street, city, province, postalCode, ...customer }: CheckoutForm) => {
+    if (!paymentMethod || (ships && !shippingOption)) return;
+
+    addressToSave.current = user && needsAddress && saveAddress && !addressIsSaved
+      ? {
+        recipientName: customer.customerName,
+        phone: customer.customerPhone,
+        street,
+        city,
+        province: province as UserAddressInput["province"],
+        postalCode,
+        isDefault: false,
+      }
+      : null;
+
     const orderItems = cartItems.map(({ product, quantity }) => ({
       productId: product.id,
       quantity,
-      price: product.price,
     }));
 
+    // Prices and total are computed by the server from the product catalog
     const orderData = {
-      ...data,
-      total: total.toString(),
-      status: "pending",
+      ...customer,
       items: orderItems,
       paymentMethod,
+      couponCode: appliedCoupon?.code,
+      ...(needsAddress ? { shipping: { street, city, province, postalCode } } : {}),
+      ...(ships ? { shippingMethod: shippingOption?.method } : {}),
     };
 
-    if (paymentMethod === "mercadopago" && mpConfig?.publicKey) {
-      // Create MercadoPago payment
-      const paymentData = {
-        ...orderData,
-        items: cartItems.map(({ product, quantity }) => ({
-          title: product.name,
-          quantity,
-          unit_price: parseFloat(product.price),
-        })),
-      };
-      createMercadoPagoPayment.mutate(paymentData);
-    } else {
-      // Create order directly (cash payment)
-      createOrderMutation.mutate(orderData);
-    }
+    // The order is persisted first; for MercadoPago the preference is then
+    // built from the saved order and the buyer is redirected to pay it.
+    // Other methods continue on the order's payment page.
+    createOrderMutation.mutate(orderData);
   };
 
-  if (isLoading) {
+  if (isLoading || methodsLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <LoadingSpinner size="lg" />
@@ -213,11 +428,37 @@ export default function Checkout() {
             <Card>
               <CardHeader>
                 <CardTitle className="text-2xl font-bold text-gray-900">
-                  Información de envío
+                  {ships ? "Información de envío" : "Tus datos"}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                  {addresses.length > 0 && (
+                    <div>
+                      <Label className="block text-sm font-medium text-gray-700 mb-2">
+                        Mis direcciones
+                      </Label>
+                      <Select
+                        value={selectedAddressId ?? undefined}
+                        onValueChange={(id) => {
+                          const address = addresses.find((candidate) => candidate.id === id);
+                          if (address) applyAddress(address);
+                        }}
+                      >
+                        <SelectTrigger data-testid="select-saved-address">
+                          <SelectValue placeholder="Elegí una dirección guardada" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {addresses.map((address) => (
+                            <SelectItem key={address.id} value={address.id}>
+                              {address.label || address.recipientName} · {formatAddress(address)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="customerName" className="block text-sm font-medium text-gray-700 mb-2">
                       Nombre completo
@@ -261,43 +502,212 @@ export default function Checkout() {
                     )}
                   </div>
 
-                  <div>
-                    <Label htmlFor="shippingAddress" className="block text-sm font-medium text-gray-700 mb-2">
-                      Dirección de envío
-                    </Label>
-                    <Input
-                      id="shippingAddress"
-                      {...register("shippingAddress")}
-                      className="w-full"
-                    />
-                    {errors.shippingAddress && (
-                      <p className="text-red-500 text-sm mt-1">{errors.shippingAddress.message}</p>
-                    )}
-                  </div>
+                  {ships && (
+                    <div>
+                      <Label className="block text-sm font-medium text-gray-700 mb-4">
+                        Entrega
+                      </Label>
+                      {pickupOnly ? (
+                        <p className="text-sm text-gray-600">
+                          Con este método de pago retirás tu pedido en el local
+                        </p>
+                      ) : (
+                        <RadioGroup
+                          value={pickup ? "pickup" : "carrier"}
+                          onValueChange={(value) => setSelectedShipping(value === "pickup" ? "pickup" : null)}
+                          className="grid sm:grid-cols-2 gap-3"
+                        >
+                          <Label
+                            htmlFor="delivery-carrier"
+                            data-testid="delivery-carrier"
+                            className={`flex items-center space-x-3 rounded-lg border p-4 cursor-pointer ${
+                              !pickup ? "bg-blue-50 border-blue-200" : "border-gray-200"
+                            }`}
+                          >
+                            <RadioGroupItem id="delivery-carrier" value="carrier" />
+                            <span className="text-gray-700 font-medium">Envío por correo</span>
+                          </Label>
+                          <Label
+                            htmlFor="delivery-pickup"
+                            data-testid="delivery-pickup"
+                            className={`flex items-center space-x-3 rounded-lg border p-4 cursor-pointer ${
+                              pickup ? "bg-blue-50 border-blue-200" : "border-gray-200"
+                            }`}
+                          >
+                            <RadioGroupItem id="delivery-pickup" value="pickup" />
+                            <span className="text-gray-700 font-medium">{pickupOption.label} (gratis)</span>
+                          </Label>
+                        </RadioGroup>
+                      )}
+                    </div>
+                  )}
+
+                  {needsAddress && (
+                    <>
+                      <div>
+                        <Label htmlFor="street" className="block text-sm font-medium text-gray-700 mb-2">
+                          Calle y número
+                        </Label>
+                        <Input
+                          id="street"
+                          placeholder="ej: Av. Corrientes 1234, 5° B"
+                          {...register("street")}
+                          className="w-full"
+                        />
+                        {errors.street && (
+                          <p className="text-red-500 text-sm mt-1">{errors.street.message}</p>
+                        )}
+                      </div>
+
+                      <div className="grid sm:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="city" className="block text-sm font-medium text-gray-700 mb-2">
+                            Localidad
+                          </Label>
+                          <Input id="city" {...register("city")} className="w-full" />
+                          {errors.city && (
+                            <p className="text-red-500 text-sm mt-1">{errors.city.message}</p>
+                          )}
+                        </div>
+                        <div>
+                          <Label htmlFor="postalCode" className="block text-sm font-medium text-gray-700 mb-2">
+                            Código postal
+                          </Label>
+                          <Input id="postalCode" placeholder="ej: 1414 o C1414ABC" {...register("postalCode")} className="w-full" />
+                          {errors.postalCode && (
+                            <p className="text-red-500 text-sm mt-1">{errors.postalCode.message}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div>
+                        <Label className="block text-sm font-medium text-gray-700 mb-2">
+                          Provincia
+                        </Label>
+                        <Select
+                          value={province || undefined}
+                          onValueChange={(value) => setValue("province", value, { shouldValidate: true })}
+                        >
+                          <SelectTrigger data-testid="select-province">
+                            <SelectValue placeholder="Elegí tu provincia" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ARGENTINE_PROVINCES.map((name) => (
+                              <SelectItem key={name} value={name}>{name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {errors.province && (
+                          <p className="text-red-500 text-sm mt-1">{errors.province.message}</p>
+                        )}
+                      </div>
+
+                      {user && !addressIsSaved && (
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="saveAddress"
+                            checked={saveAddress}
+                            onCheckedChange={(checked) => setSaveAddress(checked === true)}
+                          />
+                          <Label htmlFor="saveAddress" className="font-normal text-gray-700">
+                            Guardar esta dirección en mi cuenta
+                          </Label>
+                        </div>
+                      )}
+
+                      {/* Shipping Method Selection */}
+                      <div>
+                        <Label className="block text-sm font-medium text-gray-700 mb-4">
+                          Método de envío
+                        </Label>
+                        {!province ? (
+                          <p className="text-sm text-gray-500">Elegí tu provincia para ver las opciones de envío</p>
+                        ) : shippingLoading && !shippingQuote ? (
+                          <LoadingSpinner size="sm" />
+                        ) : shippingOptions.length === 0 ? (
+                          <p className="text-sm text-red-500 flex items-center">
+                            <AlertCircle className="w-4 h-4 mr-1" />
+                            Por el momento no hacemos envíos a {province}. Podés retirar tu pedido en el local.
+                          </p>
+                        ) : (
+                          <RadioGroup
+                            value={shippingOption?.method}
+                            onValueChange={(value) => setSelectedShipping(value as ShippingMethod)}
+                            className="space-y-3"
+                          >
+                            {shippingOptions.map((option) => (
+                              <Label
+                                key={option.method}
+                                htmlFor={`shipping-${option.method}`}
+                                data-testid={`shipping-method-${option.method}`}
+                                className={`flex items-start space-x-3 rounded-lg border p-4 cursor-pointer ${
+                                  shippingOption?.method === option.method ? "bg-blue-50 border-blue-200" : "border-gray-200"
+                                }`}
+                              >
+                                <RadioGroupItem id={`shipping-${option.method}`} value={option.method} className="mt-1" />
+                                <div className="flex-1">
+                                  <div className="flex justify-between">
+                                    <span className="text-gray-700 font-medium">{option.label}</span>
+                                    <span className="text-gray-700 font-medium">
+                                      {appliedCoupon?.freeShipping ? "Gratis" : formatPrice(option.cost)}
+                                    </span>
+                                  </div>
+                                  {option.deliveryTime && (
+                                    <p className="text-sm text-gray-600 mt-1 font-normal">{option.deliveryTime}</p>
+                                  )}
+                                </div>
+                              </Label>
+                            ))}
+                          </RadioGroup>
+                        )}
+                      </div>
+                    </>
+                  )}
 
                   {/* Payment Method Selection */}
                   <div>
                     <Label className="block text-sm font-medium text-gray-700 mb-4">
                       Método de pago
                     </Label>
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-semibold text-gray-900">Método de Pago</h3>
-
-                      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                        <div className="flex items-center space-x-3">
-                          <div className="w-4 h-4 bg-blue-500 rounded-full"></div>
-                          <span className="text-gray-700 font-medium">MercadoPago</span>
-                        </div>
-                        <p className="text-sm text-gray-600 mt-2">
-                          Pago seguro con tarjetas de crédito, débito y otros métodos
-                        </p>
-                      </div>
-                    </div>
+                    {paymentMethods.length === 0 ? (
+                      <p className="text-sm text-red-500 flex items-center">
+                        <AlertCircle className="w-4 h-4 mr-1" />
+                        No hay métodos de pago disponibles en este momento
+                      </p>
+                    ) : (
+                      <RadioGroup
+                        value={paymentMethod ?? undefined}
+                        onValueChange={(value) => setSelectedMethod(value as PaymentMethodId)}
+                        className="space-y-3"
+                      >
+                        {paymentMethods.map((method) => (
+                          <Label
+                            key={method.id}
+                            htmlFor={`payment-${method.id}`}
+                            data-testid={`payment-method-${method.id}`}
+                            className={`flex items-start space-x-3 rounded-lg border p-4 cursor-pointer ${
+                              paymentMethod === method.id ? "bg-blue-50 border-blue-200" : "border-gray-200"
+                            }`}
+                          >
+                            <RadioGroupItem id={`payment-${method.id}`} value={method.id} className="mt-1" />
+                            <div>
+                              <span className="text-gray-700 font-medium">{method.label}</span>
+                              <p className="text-sm text-gray-600 mt-1 font-normal">{method.description}</p>
+                            </div>
+                          </Label>
+                        ))}
+                      </RadioGroup>
+                    )}
                   </div>
 
                   <Button
                     type="submit"
-                    disabled={createOrderMutation.isPending || createMercadoPagoPayment.isPending}
+                    disabled={
+                      !paymentMethod
+                      || (needsAddress && !!province && !shippingOption)
+                      || createOrderMutation.isPending
+                      || createMercadoPagoPayment.isPending
+                    }
                     className="w-full btn-gradient text-white py-4 rounded-xl font-semibold text-lg hover:shadow-lg transition-all duration-300"
                   >
                     {(createOrderMutation.isPending || createMercadoPagoPayment.isPending) ? (
@@ -326,6 +736,7 @@ export default function Checkout() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  <CartNotices />
                   {cartItems.map(({ product, quantity }) => (
                     <div key={product.id} className="flex items-center space-x-4 py-4 border-b">
                       <img
@@ -337,6 +748,14 @@ export default function Checkout() {
                         <h4 className="font-semibold text-gray-900">{product.name}</h4>
                         <p className="text-sm text-gray-500">{product.ageRange} años</p>
                         <p className="text-sm text-gray-500">Cantidad: {quantity}</p>
+                        {lineErrors
+                          .filter((lineError) => lineError.productId === product.id)
+                          .map((lineError) => (
+                            <p key={lineError.code} className="text-sm text-red-500 flex items-center mt-1">
+                              <AlertCircle className="w-4 h-4 mr-1" />
+                              {lineError.message}
+                            </p>
+                          ))}
                       </div>
                       <div className="text-right">
                         <p className="font-semibold text-mint">
@@ -347,7 +766,79 @@ export default function Checkout() {
                   ))}
                 </div>
 
-                <div className="border-t pt-4 mt-4">
+                <div className="border-t pt-4 mt-4 space-y-2">
+                  <Label htmlFor="couponCode" className="block text-sm font-medium text-gray-700">
+                    Cupón de descuento
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="couponCode"
+                      data-testid="input-coupon-code"
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                      placeholder="Ingresá tu código"
+                      disabled={!!appliedCoupon}
+                    />
+                    {appliedCoupon ? (
+                      <Button type="button" variant="outline" onClick={removeCoupon}>
+                        Quitar
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        data-testid="button-apply-coupon"
+                        disabled={!couponInput.trim() || validateCouponMutation.isPending}
+                        onClick={() => validateCouponMutation.mutate(couponInput.trim())}
+                      >
+                        {validateCouponMutation.isPending ? <LoadingSpinner size="sm" /> : "Aplicar"}
+                      </Button>
+                    )}
+                  </div>
+                  {couponError && (
+                    <p className="text-sm text-red-500 flex items-center">
+                      <AlertCircle className="w-4 h-4 mr-1" />
+                      {couponError}
+                    </p>
+                  )}
+                  {appliedCoupon && (
+                    <p className="text-sm text-mint flex items-center">
+                      <Tag className="w-4 h-4 mr-1" />
+                      Cupón {appliedCoupon.code} aplicado
+                      {appliedCoupon.description && ` · ${appliedCoupon.description}`}
+                      {appliedCoupon.freeShipping && " · Envío gratis"}
+                    </p>
+                  )}
+                </div>
+
+                <div className="border-t pt-4 mt-4 space-y-2">
+                  {(discount > 0 || ships) && (
+                    <div className="flex items-center justify-between text-gray-600">
+                      <span>Subtotal:</span>
+                      <span>{formatPrice(subtotal.toString())}</span>
+                    </div>
+                  )}
+                  {discount > 0 && (
+                    <div className="flex items-center justify-between text-gray-600">
+                      <span>Descuento ({appliedCoupon?.code}):</span>
+                      <span>-{formatPrice(discount.toString())}</span>
+                    </div>
+                  )}
+                  {ships && (
+                    <div className="flex items-center justify-between text-gray-600">
+                      <span className="flex items-center">
+                        <Truck className="w-4 h-4 mr-1" />
+                        Envío:
+                      </span>
+                      <span>
+                        {!shippingOption
+                          ? "A calcular"
+                          : appliedCoupon?.freeShipping || pickup
+                            ? "Gratis"
+                            : formatPrice(shippingOption.cost)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between text-lg font-semibold">
                     <span>Total:</span>
                     <span className="text-2xl text-mint">{formatPrice(total.toString())}</span>
@@ -0,0 +1,136 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { formatOrderNumber, type OrderPaymentState } from "@shared/schema";
+import { CheckCircle, Clock, XCircle } from "lucide-react";
+
+const RESULTS = {
+  success: {
+    icon: CheckCircle,
+    color: "text-green-500",
+    title: "¡Pago aprobado!",
+    description: "Gracias por tu compra. Tu pedido está confirmado.",
+  },
+  pending: {
+    icon: Clock,
+    color: "text-yellow-500",
+    title: "Pago pendiente",
+    description: "Tu pago está siendo procesado. Tu pedido se confirmará apenas MercadoPago lo apruebe.",
+  },
+  failure: {
+    icon: XCircle,
+    color: "text-red-500",
+    title: "El pago no se completó",
+    description: "No se realizó ningún cobro. Tu pedido sigue reservado: podés reintentar el pago.",
+  },
+  cancelled: {
+    icon: XCircle,
+    color: "text-red-500",
+    title: "El pedido fue cancelado",
+    description: "No se realizó ningún cobro por este pedido.",
+  },
+} as const;
+
+type ResultKey = keyof typeof RESULTS;
+
+// The order's reconciled state wins over the query string MercadoPago
+// appends to the return URL, which the buyer can edit.
+function resultFor(order: OrderPaymentState | undefined, fallback: ResultKey): ResultKey {
+  if (!order) return fallback;
+  if (order.status === "cancelled") return "cancelled";
+  if (order.status !== "pending") return "success";
+  if (order.payment?.status === "rejected") return "failure";
+  // Nothing reached MercadoPago yet, e.g. the buyer left its checkout
+  if (fallback === "failure" && order.payment?.status === "pending" && !order.payment.providerStatus) return "failure";
+  return "pending";
+}
+
+export default function CheckoutResult() {
+  const { result } = useParams<{ result: string }>();
+  const search = new URLSearchParams(useSearch());
+  const orderId = search.get("external_reference");
+  const fallback = (result in RESULTS ? result : "failure") as ResultKey;
+  const { toast } = useToast();
+
+  const { data: order, isLoading } = useQuery<OrderPaymentState>({
+    queryKey: ["/api/orders", orderId, "payment"],
+    enabled: !!orderId,
+    // The webhook can land a few seconds after the buyer is redirected back;
+    // a rejected payment stays rejected until the buyer retries
+    refetchInterval: (query) =>
+      query.state.data && resultFor(query.state.data, fallback) === "pending" ? 5000 : false,
+  });
+
+  // A new MercadoPago checkout for the same order, which keeps its stock
+  const retryPaymentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", "/api/mercadopago/create-payment", { orderId: id });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.init_point) {
+        window.location.href = data.init_point;
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No pudimos reintentar el pago"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (orderId && isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const resultKey = resultFor(order, fallback);
+  const content = RESULTS[resultKey];
+  const Icon = content.icon;
+  const canRetry = resultKey === "failure" && order?.status === "pending" && order.payment?.method === "mercadopago";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Card>
+          <CardContent className="text-center py-12">
+            <Icon className={`w-16 h-16 mx-auto mb-4 ${content.color}`} />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">{content.title}</h1>
+            <p className="text-gray-600 mb-2">
+              {resultKey === "failure" && !canRetry ? "No se realizó ningún cobro." : content.description}
+            </p>
+            {order && (
+              <p className="text-sm text-gray-500 mb-8">Pedido {formatOrderNumber(order.number)}</p>
+            )}
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              {canRetry && (
+                <Button
+                  className="btn-gradient text-white"
+                  data-testid="button-retry-payment"
+                  disabled={retryPaymentMutation.isPending}
+                  onClick={() => retryPaymentMutation.mutate(order.id)}
+                >
+                  {retryPaymentMutation.isPending ? <LoadingSpinner size="sm" /> : "Reintentar el pago"}
+                </Button>
+              )}
+              <Link href="/products">
+                <Button className={canRetry ? "" : "btn-gradient text-white"} variant={canRetry ? "outline" : "default"}>
+                  Seguir comprando
+                </Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
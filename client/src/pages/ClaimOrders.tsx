@@ -0,0 +1,89 @@
+import { useEffect, type ReactNode } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { CheckCircle, Lock, XCircle } from "lucide-react";
+
+// Landing page of the link in the order claim email: attaches the guest
+// orders placed with the account's email once the buyer is signed in
+export default function ClaimOrders() {
+  const params = new URLSearchParams(useSearch());
+  const expires = Number(params.get("expires"));
+  const signature = params.get("signature") ?? "";
+  const { user, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/claim/confirm", { expires, signature });
+      return response.json() as Promise<{ claimed: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+  });
+
+  useEffect(() => {
+    if (user && claimMutation.isIdle) {
+      claimMutation.mutate();
+    }
+  }, [user]);
+
+  if (!isLoading && !user) {
+    return (
+      <ClaimResult icon={<Lock className="w-16 h-16 mx-auto mb-4 text-gray-400" />} title="Iniciá sesión para continuar">
+        Ingresá con la cuenta que pidió el enlace y volvé a abrirlo desde el email.
+      </ClaimResult>
+    );
+  }
+
+  if (claimMutation.isError) {
+    return (
+      <ClaimResult icon={<XCircle className="w-16 h-16 mx-auto mb-4 text-red-500" />} title="No pudimos vincular tus pedidos">
+        {errorMessage(claimMutation.error, "El enlace no es válido o ya venció.")}
+      </ClaimResult>
+    );
+  }
+
+  if (claimMutation.isSuccess) {
+    const { claimed } = claimMutation.data;
+    return (
+      <ClaimResult icon={<CheckCircle className="w-16 h-16 mx-auto mb-4 text-mint" />} title="¡Listo!">
+        {claimed === 0
+          ? "No encontramos pedidos sin cuenta hechos con tu email."
+          : claimed === 1
+            ? "Sumamos 1 pedido a tu cuenta."
+            : `Sumamos ${claimed} pedidos a tu cuenta.`}
+      </ClaimResult>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <LoadingSpinner size="lg" />
+    </div>
+  );
+}
+
+function ClaimResult({ icon, title, children }: { icon: ReactNode; title: string; children: ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Card>
+          <CardContent className="text-center py-12">
+            {icon}
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">{title}</h1>
+            <p className="text-gray-600 mb-8">{children}</p>
+            <Link href="/profile">
+              <Button className="btn-gradient text-white">Ir a Mis Pedidos</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
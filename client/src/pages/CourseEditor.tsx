@@ -0,0 +1,517 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiUpload, errorMessage } from "@/lib/queryClient";
+import {
+  courseLessonSchema,
+  type CourseLessonInput,
+  type CourseLessonView,
+  type CourseModuleView,
+  type CourseProgressReport,
+  type CourseView,
+  type LessonType,
+} from "@shared/schema";
+import { ArrowLeft, Edit, FileText, Plus, Save, Trash2, TrendingUp, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const lessonTypeLabels: Record<LessonType, string> = {
+  video: "Video",
+  pdf: "PDF",
+  text: "Texto",
+};
+
+interface LessonDialogProps {
+  productId: string;
+  moduleId: string;
+  lesson: CourseLessonView | null;
+  onClose: () => void;
+}
+
+// Creates a lesson in a module or edits an existing one. PDFs are uploaded
+// once the lesson exists.
+function LessonDialog({ productId, moduleId, lesson, onClose }: LessonDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<CourseLessonInput>({
+    resolver: zodResolver(courseLessonSchema),
+    defaultValues: {
+      title: lesson?.title ?? "",
+      type: lesson?.type ?? "video",
+      videoUrl: lesson?.videoUrl ?? "",
+      body: lesson?.body ?? "",
+    },
+  });
+  const watchType = watch("type");
+
+  const invalidateCourse = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/courses", productId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/courses", productId, "progress"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CourseLessonInput) => {
+      const lessonData = {
+        ...data,
+        videoUrl: data.type === "video" ? data.videoUrl : null,
+        body: data.body?.trim() ? data.body : null,
+      };
+      const response = lesson
+        ? await apiRequest("PUT", `/api/admin/course-lessons/${lesson.id}`, lessonData)
+        : await apiRequest("POST", `/api/admin/course-modules/${moduleId}/lessons`, lessonData);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCourse();
+      toast({ title: lesson ? "Lección actualizada" : "Lección creada" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo guardar la lección"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiUpload("POST", `/api/admin/course-lessons/${lesson!.id}/pdf`, file);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCourse();
+      toast({ title: "PDF subido" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo subir el PDF"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{lesson ? "Editar Lección" : "Nueva Lección"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div>
+            <Label htmlFor="lesson-title">Título</Label>
+            <Input id="lesson-title" {...register("title")} />
+            {errors.title && <p className="text-red-500 text-sm mt-1">{errors.title.message}</p>}
+          </div>
+
+          <div>
+            <Label>Tipo</Label>
+            <Select onValueChange={(value) => setValue("type", value as LessonType)} defaultValue={lesson?.type ?? "video"}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(lessonTypeLabels).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {watchType === "video" && (
+            <div>
+              <Label htmlFor="lesson-video">URL del video</Label>
+              <Input id="lesson-video" placeholder="https://www.youtube.com/watch?v=..." {...register("videoUrl")} />
+              {errors.videoUrl && <p className="text-red-500 text-sm mt-1">{errors.videoUrl.message}</p>}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="lesson-body">{watchType === "text" ? "Contenido" : "Descripción (opcional)"}</Label>
+            <Textarea id="lesson-body" rows={watchType === "text" ? 10 : 4} {...register("body")} />
+            {errors.body && <p className="text-red-500 text-sm mt-1">{errors.body.message}</p>}
+          </div>
+
+          <div className="flex justify-end space-x-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} className="btn-gradient text-white">
+              {saveMutation.isPending && <LoadingSpinner size="sm" className="mr-2" />}
+              {lesson ? "Actualizar" : "Crear"} Lección
+            </Button>
+          </div>
+        </form>
+
+        {watchType === "pdf" && (
+          lesson ? (
+            <div className="border-t pt-4 space-y-3">
+              <Label>Material PDF</Label>
+              <p className="text-sm text-gray-600">
+                {lesson.hasPdf ? "La lección ya tiene un PDF; subir otro lo reemplaza." : "Todavía no se subió el PDF."}
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/pdf"
+                className="hidden"
+                onChange={handleFileChange}
+                data-testid="input-lesson-pdf"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => fileInput.current?.click()}
+                disabled={uploadMutation.isPending}
+              >
+                {uploadMutation.isPending ? (
+                  <LoadingSpinner size="sm" className="mr-2" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Subir PDF
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 border-t pt-4">
+              Guardá la lección para poder subir su PDF.
+            </p>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ModuleCardProps {
+  productId: string;
+  courseModule: CourseModuleView;
+  progress?: CourseProgressReport;
+  onEditLesson: (moduleId: string, lesson: CourseLessonView | null) => void;
+}
+
+function ModuleCard({ productId, courseModule, progress, onEditLesson }: ModuleCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState(courseModule.title);
+
+  const invalidateCourse = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/courses", productId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/courses", productId, "progress"] });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/admin/course-modules/${courseModule.id}`, {
+        title,
+        position: courseModule.position,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCourse();
+      toast({ title: "Módulo actualizado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo actualizar el módulo"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteModuleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/admin/course-modules/${courseModule.id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCourse();
+      toast({ title: "Módulo eliminado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo eliminar el módulo"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteLessonMutation = useMutation({
+    mutationFn: async (lessonId: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/course-lessons/${lessonId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCourse();
+      toast({ title: "Lección eliminada" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo eliminar la lección"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const completedBy = (lessonId: string) =>
+    progress?.lessons.find((lesson) => lesson.lessonId === lessonId)?.completedBy ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Input value={title} onChange={(event) => setTitle(event.target.value)} className="font-semibold" />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={renameMutation.isPending || !title.trim() || title === courseModule.title}
+            onClick={() => renameMutation.mutate()}
+          >
+            <Save className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            disabled={deleteModuleMutation.isPending}
+            onClick={() => deleteModuleMutation.mutate()}
+            data-testid={`button-delete-module-${courseModule.id}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {courseModule.lessons.length === 0 && (
+          <p className="text-sm text-gray-500">Este módulo todavía no tiene lecciones.</p>
+        )}
+        {courseModule.lessons.map((lesson) => (
+          <div key={lesson.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+            <div className="flex items-center gap-3">
+              <Badge variant="outline">{lessonTypeLabels[lesson.type]}</Badge>
+              <div>
+                <p className="font-medium">{lesson.title}</p>
+                <p className="text-xs text-gray-500">
+                  {progress ? `Completada por ${completedBy(lesson.id)} de ${progress.learners} alumnos` : null}
+                  {lesson.type === "pdf" && !lesson.hasPdf && (
+                    <span className="text-red-600 ml-2">
+                      <FileText className="w-3 h-3 inline mr-1" />
+                      Falta subir el PDF
+                    </span>
+                  )}
+                </p>
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => onEditLesson(courseModule.id, lesson)}>
+                <Edit className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                disabled={deleteLessonMutation.isPending}
+                onClick={() => deleteLessonMutation.mutate(lesson.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={() => onEditLesson(courseModule.id, null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Agregar lección
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CourseEditor() {
+  const { productId } = useParams<{ productId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newModuleTitle, setNewModuleTitle] = useState("");
+  const [editing, setEditing] = useState<{ moduleId: string; lessonId: string | null } | null>(null);
+
+  const isAdmin = user?.role === "admin";
+
+  const { data: course, isLoading } = useQuery<CourseView>({
+    queryKey: ["/api/courses", productId],
+    enabled: isAdmin,
+  });
+
+  const { data: progress } = useQuery<CourseProgressReport>({
+    queryKey: ["/api/admin/courses", productId, "progress"],
+    enabled: isAdmin,
+  });
+
+  const createModuleMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const response = await apiRequest("POST", `/api/admin/courses/${productId}/modules`, { title });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", productId] });
+      setNewModuleTitle("");
+      toast({ title: "Módulo creado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo crear el módulo"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Acceso Denegado</h1>
+          <p className="text-gray-600 mb-6">No tienes permisos para acceder a esta página</p>
+          <Link to="/">
+            <Button className="btn-gradient text-white">Volver al Inicio</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Looked up on every render so the dialog sees a freshly uploaded PDF
+  const editingLesson = course?.modules
+    .flatMap((courseModule) => courseModule.lessons)
+    .find((lesson) => lesson.id === editing?.lessonId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <Link href="/admin">
+            <Button variant="ghost" className="flex items-center space-x-2 text-mint hover:text-mint/80 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Volver al panel</span>
+            </Button>
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Contenido del curso</h1>
+          <p className="text-gray-600">{course?.productName}</p>
+        </div>
+
+        {progress && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <TrendingUp className="w-6 h-6 text-mint" />
+                <span>Progreso de los alumnos</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{progress.learners}</p>
+                <p className="text-sm text-gray-600">Alumnos</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{progress.completedCourse}</p>
+                <p className="text-sm text-gray-600">Terminaron el curso</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-900">{progress.averageCompletion}%</p>
+                <p className="text-sm text-gray-600">Avance promedio</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {course?.modules.map((courseModule) => (
+          <ModuleCard
+            key={courseModule.id}
+            productId={productId}
+            courseModule={courseModule}
+            progress={progress}
+            onEditLesson={(moduleId, lesson) => setEditing({ moduleId, lessonId: lesson?.id ?? null })}
+          />
+        ))}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createModuleMutation.mutate(newModuleTitle);
+          }}
+        >
+          <Input
+            placeholder="Título del nuevo módulo"
+            value={newModuleTitle}
+            onChange={(event) => setNewModuleTitle(event.target.value)}
+            data-testid="input-new-module"
+          />
+          <Button
+            type="submit"
+            className="btn-gradient text-white"
+            disabled={createModuleMutation.isPending || !newModuleTitle.trim()}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Agregar módulo
+          </Button>
+        </form>
+      </div>
+
+      {editing && (
+        <LessonDialog
+          productId={productId}
+          moduleId={editing.moduleId}
+          lesson={editingLesson}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CourseLessonView, CourseView } from "@shared/schema";
+import { ArrowLeft, CheckCircle, ChevronRight, Circle, FileText, PlayCircle, XCircle } from "lucide-react";
+
+// YouTube and Vimeo links are shown through their embeddable players; any
+// other URL is treated as a video file
+const videoEmbedUrl = (url: string): string | null => {
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?v=|embed\/)|youtu\.be\/)([\w-]{11})/);
+  if (youtube) return `https://www.youtube.com/embed/${youtube[1]}`;
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+  return null;
+};
+
+const lessonIcon = (lesson: CourseLessonView) => {
+  if (lesson.completed) return <CheckCircle className="w-4 h-4 text-green-600 shrink-0" />;
+  return <Circle className="w-4 h-4 text-gray-300 shrink-0" />;
+};
+
+function LessonPdf({ lessonId }: { lessonId: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // The PDF needs the auth header, so it is fetched and shown from a blob URL
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+
+    apiRequest("GET", `/api/course-lessons/${lessonId}/pdf`)
+      .then((response) => response.blob())
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setFailed(true));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [lessonId]);
+
+  if (failed) return <p className="text-red-500">No se pudo cargar el material.</p>;
+  if (!url) return <LoadingSpinner size="lg" />;
+
+  return (
+    <div className="space-y-2">
+      <iframe src={url} title="Material de la lección" className="w-full h-[70vh] rounded-lg border" />
+      <a href={url} target="_blank" rel="noreferrer" className="text-sm text-mint">
+        Abrir en una pestaña nueva
+      </a>
+    </div>
+  );
+}
+
+export default function CoursePlayer() {
+  const { productId } = useParams<{ productId: string }>();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedLessonId, setSelectedLessonId] = useState<string | null>(null);
+
+  const { data: course, isLoading, error } = useQuery<CourseView>({
+    queryKey: ["/api/courses", productId],
+    enabled: !!user,
+  });
+
+  const progressMutation = useMutation({
+    mutationFn: async ({ lessonId, completed }: { lessonId: string; completed: boolean }) => {
+      const response = await apiRequest("PUT", `/api/course-lessons/${lessonId}/progress`, { completed });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar tu progreso",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) {
+    setLocation("/");
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !course) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Card>
+            <CardContent className="text-center py-12">
+              <XCircle className="w-16 h-16 mx-auto mb-4 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">No tenés acceso a este curso</h1>
+              <Link href="/profile">
+                <Button className="btn-gradient text-white">Volver a mi perfil</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const lessons = course.modules.flatMap((courseModule) => courseModule.lessons);
+  // Resume at the first lesson not completed yet
+  const lesson = lessons.find((candidate) => candidate.id === selectedLessonId)
+    ?? lessons.find((candidate) => !candidate.completed)
+    ?? lessons[0];
+  const nextLesson = lesson ? lessons[lessons.indexOf(lesson) + 1] : undefined;
+  const percent = course.totalLessons === 0 ? 0 : Math.round((course.completedLessons / course.totalLessons) * 100);
+  const embedUrl = lesson?.type === "video" && lesson.videoUrl ? videoEmbedUrl(lesson.videoUrl) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-6">
+          <Link href="/profile">
+            <Button variant="ghost" className="flex items-center space-x-2 text-mint hover:text-mint/80">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Mis cursos</span>
+            </Button>
+          </Link>
+        </div>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-3">{course.productName}</h1>
+          <div className="flex items-center gap-4 max-w-md">
+            <Progress value={percent} className="h-2" />
+            <span className="text-sm text-gray-600 whitespace-nowrap">
+              {course.completedLessons} de {course.totalLessons} lecciones
+            </span>
+          </div>
+        </div>
+
+        {!lesson ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <p className="text-gray-600">El contenido de este curso todavía no está disponible.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-1 h-fit">
+              <CardContent className="p-4 space-y-4">
+                {course.modules.map((courseModule) => (
+                  <div key={courseModule.id}>
+                    <h3 className="font-semibold text-gray-900 mb-2">{courseModule.title}</h3>
+                    <ul className="space-y-1">
+                      {courseModule.lessons.map((candidate) => (
+                        <li key={candidate.id}>
+                          <button
+                            onClick={() => setSelectedLessonId(candidate.id)}
+                            data-testid={`button-lesson-${candidate.id}`}
+                            className={`w-full flex items-center gap-2 text-left text-sm px-2 py-1.5 rounded ${
+                              candidate.id === lesson.id ? "bg-mint/10 text-mint font-medium" : "text-gray-700 hover:bg-gray-100"
+                            }`}
+                          >
+                            {lessonIcon(candidate)}
+                            <span>{candidate.title}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl">
+                  {lesson.type === "video" ? <PlayCircle className="w-5 h-5 text-mint" /> : <FileText className="w-5 h-5 text-mint" />}
+                  {lesson.title}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {lesson.type === "video" && lesson.videoUrl && (
+                  embedUrl ? (
+                    <div className="aspect-video">
+                      <iframe
+                        src={embedUrl}
+                        title={lesson.title}
+                        className="w-full h-full rounded-lg"
+                        allow="autoplay; fullscreen; picture-in-picture"
+                        allowFullScreen
+                      />
+                    </div>
+                  ) : (
+                    <video src={lesson.videoUrl} controls className="w-full rounded-lg" />
+                  )
+                )}
+
+                {lesson.type === "pdf" && (
+                  lesson.hasPdf ? <LessonPdf lessonId={lesson.id} /> : <p className="text-gray-500">El material estará disponible pronto.</p>
+                )}
+
+                {lesson.body && <p className="text-gray-700 whitespace-pre-line">{lesson.body}</p>}
+
+                <div className="flex flex-wrap justify-between gap-4 border-t pt-4">
+                  <Button
+                    variant={lesson.completed ? "outline" : "default"}
+                    className={lesson.completed ? "" : "btn-gradient text-white"}
+                    disabled={progressMutation.isPending}
+                    onClick={() => progressMutation.mutate({ lessonId: lesson.id, completed: !lesson.completed })}
+                    data-testid="button-toggle-lesson-completed"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {lesson.completed ? "Marcar como pendiente" : "Marcar como completada"}
+                  </Button>
+                  {nextLesson && (
+                    <Button variant="outline" onClick={() => setSelectedLessonId(nextLesson.id)}>
+                      Siguiente lección
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useRef, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useToast } from "@/hooks/use-toast";
+import { apiUpload, errorMessage } from "@/lib/queryClient";
+import { formatOrderNumber, type OrderPaymentState } from "@shared/schema";
+import { CheckCircle, Clock, FileText, Upload, XCircle } from "lucide-react";
+
+const formatPrice = (price: string) => {
+  return new Intl.NumberFormat("es-AR", {
+    style: "currency",
+    currency: "ARS",
+    minimumFractionDigits: 0,
+  }).format(parseFloat(price));
+};
+
+const getPaymentStatusLabel = (status: string) => {
+  switch (status) {
+    case "pending": return "Pendiente de pago";
+    case "in_review": return "Comprobante en revisión";
+    case "approved": return "Pago aprobado";
+    case "rejected": return "Pago rechazado";
+    case "cancelled": return "Pago cancelado";
+    case "refunded": return "Pago reintegrado";
+    default: return status;
+  }
+};
+
+const getPaymentStatusColor = (status: string) => {
+  switch (status) {
+    case "pending": return "bg-yellow-500";
+    case "in_review": return "bg-blue-500";
+    case "approved": return "bg-green-500";
+    case "rejected": return "bg-red-500";
+    default: return "bg-gray-500";
+  }
+};
+
+// Where buyers of offline methods (bank transfer, cash on pickup) land after
+// placing the order: how to pay, and the receipt upload for transfers.
+export default function OrderPayment() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: order, isLoading, error } = useQuery<OrderPaymentState>({
+    queryKey: ["/api/orders", id, "payment"],
+  });
+
+  const uploadReceiptMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiUpload("POST", `/api/orders/${id}/payment/receipt`, file);
+      return response.json();
+    },
+    onSuccess: (data: OrderPaymentState) => {
+      queryClient.setQueryData(["/api/orders", id, "payment"], data);
+      toast({
+        title: "Comprobante enviado",
+        description: "Vamos a revisarlo y confirmar tu pedido",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo subir el comprobante"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      uploadReceiptMutation.mutate(file);
+    }
+    event.target.value = "";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Card>
+            <CardContent className="text-center py-12">
+              <XCircle className="w-16 h-16 mx-auto mb-4 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Pedido no encontrado</h1>
+              <Link href="/products">
+                <Button className="btn-gradient text-white">Seguir comprando</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const payment = order.payment;
+  const StatusIcon = payment?.status === "approved" ? CheckCircle : payment?.status === "rejected" ? XCircle : Clock;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        <Card>
+          <CardContent className="text-center py-8">
+            <StatusIcon className="w-12 h-12 mx-auto mb-4 text-mint" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Pedido {formatOrderNumber(order.number)}</h1>
+            <p className="text-3xl font-bold text-mint mb-4">{formatPrice(order.total)}</p>
+            {payment && (
+              <Badge className={`${getPaymentStatusColor(payment.status)} text-white`}>
+                {getPaymentStatusLabel(payment.status)}
+              </Badge>
+            )}
+            {payment?.status === "rejected" && payment.reviewNote && (
+              <p className="text-sm text-red-500 mt-4">{payment.reviewNote}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {order.instructions && payment?.status !== "approved" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl font-bold text-gray-900">{order.instructions.title}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {order.instructions.details.map((detail) => (
+                <div key={detail.label} className="flex justify-between gap-4 border-b pb-2">
+                  <span className="text-gray-600">{detail.label}</span>
+                  <span className="font-medium text-gray-900 text-right whitespace-pre-line">{detail.value}</span>
+                </div>
+              ))}
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-600">Importe</span>
+                <span className="font-semibold text-mint">{formatPrice(order.total)}</span>
+              </div>
+              {order.instructions.note && (
+                <p className="text-sm text-gray-500 pt-2">{order.instructions.note}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {payment?.canUploadReceipt && (
+          <Card>
+            <CardContent className="py-6 text-center">
+              <FileText className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+              <p className="text-gray-600 mb-4">
+                {payment.hasReceipt
+                  ? "Tu comprobante fue rechazado. Podés subir uno nuevo."
+                  : "Cuando hayas transferido, subí el comprobante (imagen o PDF)."}
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="image/jpeg,image/png,image/webp,application/pdf"
+                className="hidden"
+                onChange={handleFileChange}
+                data-testid="input-payment-receipt"
+              />
+              <Button
+                onClick={() => fileInput.current?.click()}
+                disabled={uploadReceiptMutation.isPending}
+                className="btn-gradient text-white"
+              >
+                {uploadReceiptMutation.isPending ? (
+                  <LoadingSpinner size="sm" className="mr-2" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Subir comprobante
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="text-center">
+          <Link href="/products">
+            <Button variant="outline">Seguir comprando</Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { OrderTimeline } from "@/components/orders/OrderTimeline";
+import { getStatusColor, getStatusLabel } from "@/lib/order-status";
+import { getShippingMethodLabel } from "@/lib/shipping";
+import { formatOrderNumber, type TrackedOrder } from "@shared/schema";
+import { Package, XCircle } from "lucide-react";
+
+const formatPrice = (price: string) => {
+  return new Intl.NumberFormat("es-AR", {
+    style: "currency",
+    currency: "ARS",
+    minimumFractionDigits: 0,
+  }).format(parseFloat(price));
+};
+
+// Status page of a guest order, opened from the link in the confirmation
+// email. The token in the URL is the only credential.
+export default function OrderTracking() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: order, isLoading, error } = useQuery<TrackedOrder>({
+    queryKey: ["/api/orders/track", token],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <Card>
+            <CardContent className="text-center py-12">
+              <XCircle className="w-16 h-16 mx-auto mb-4 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Pedido no encontrado</h1>
+              <p className="text-gray-600 mb-6">Revisá que el enlace sea el del email de confirmación.</p>
+              <Link href="/products">
+                <Button className="btn-gradient text-white">Seguir comprando</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        <Card>
+          <CardContent className="text-center py-8">
+            <Package className="w-12 h-12 mx-auto mb-4 text-mint" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Pedido {formatOrderNumber(order.number)}</h1>
+            {order.createdAt && (
+              <p className="text-gray-600 text-sm mb-4">{new Date(order.createdAt).toLocaleDateString("es-AR")}</p>
+            )}
+            <Badge className={`${getStatusColor(order.status)} text-white`} data-testid="badge-order-status">
+              {getStatusLabel(order.status)}
+            </Badge>
+            {order.status === "pending" && (
+              <div className="mt-4">
+                <Link href={`/orders/${order.id}/payment`}>
+                  <Button variant="link" className="text-mint">Ver el estado del pago</Button>
+                </Link>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-bold text-gray-900">Productos</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {order.items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <div className="flex items-center space-x-3">
+                  <img src={item.imageUrl} alt={item.productName} className="w-12 h-12 object-cover rounded" />
+                  <div>
+                    <p className="font-medium">{item.productName}</p>
+                    <p className="text-sm text-gray-600">
+                      Cantidad: {item.quantity}
+                      {item.refundedQuantity > 0 && ` (reembolsado: ${item.refundedQuantity})`}
+                    </p>
+                  </div>
+                </div>
+                <p className="font-semibold text-mint">
+                  {formatPrice((parseFloat(item.price) * item.quantity).toString())}
+                </p>
+              </div>
+            ))}
+            <div className="border-t pt-3 space-y-1">
+              {parseFloat(order.discount) > 0 && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Descuento (cupón {order.couponCode})</span>
+                  <span>-{formatPrice(order.discount)}</span>
+                </div>
+              )}
+              {order.shippingMethod && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>
+                    {getShippingMethodLabel(order.shippingMethod)}
+                    {order.shippingCity && ` · ${order.shippingCity}, ${order.shippingProvince}`}
+                  </span>
+                  <span>{parseFloat(order.shippingCost) > 0 ? formatPrice(order.shippingCost) : "Gratis"}</span>
+                </div>
+              )}
+              {order.trackingCode && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Código de seguimiento</span>
+                  <span className="font-mono">{order.trackingCode}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span className="text-mint">{formatPrice(order.total)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {order.statusHistory.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl font-bold text-gray-900">Historial</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTimeline history={order.statusHistory} />
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          ¿Te registraste con el email de este pedido? Desde "Mis Pedidos" podés vincularlo a tu cuenta.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -11,8 +11,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { OrderWithItems } from "@shared/schema";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { getStatusColor, getStatusLabel } from "@/lib/order-status";
+import { getShippingMethodLabel } from "@/lib/shipping";
+import { OrderTimeline } from "@/components/orders/OrderTimeline";
+import { OrderDownloads } from "@/components/orders/OrderDownloads";
+import { MyCourses } from "@/components/courses/MyCourses";
+import { AddressBook } from "@/components/addresses/AddressBook";
+import { OrderWithItems, canTransitionOrder, formatOrderNumber } from "@shared/schema";
 import {
   User,
   ShoppingBag,
@@ -20,7 +26,10 @@ import {
   Edit,
   Package,
   Smartphone,
-  ArrowLeft
+  ArrowLeft,
+  XCircle,
+  GraduationCap,
+  MapPin
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 
@@ -46,7 +55,7 @@ export default function Profile() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [selectedTab, setSelectedTab] = useState<"profile" | "orders" | "password">("profile");
+  const [selectedTab, setSelectedTab] = useState<"profile" | "orders" | "addresses" | "courses" | "password">("profile");
 
   // Redirect if not logged in
   if (!user) {
@@ -103,6 +112,53 @@ export default function Profile() {
     },
   });
 
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/cancel`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Pedido cancelado",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo cancelar el pedido"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const claimOrdersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/orders/claim");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Revisá tu email",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "No se pudo enviar el enlace"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCancelOrder = (orderId: string) => {
+    if (window.confirm("¿Seguro que querés cancelar este pedido?")) {
+      cancelOrderMutation.mutate(orderId);
+    }
+  };
+
   const changePasswordMutation = useMutation({
     mutationFn: async (data: PasswordForm) => {
       const response = await apiRequest("PUT", "/api/auth/change-password", data);
@@ -132,25 +188,8 @@ export default function Profile() {
     }).format(parseFloat(price));
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "pending": return "bg-yellow-500";
-      case "confirmed": return "bg-blue-500";
-      case "shipped": return "bg-purple-500";
-      case "delivered": return "bg-green-500";
-      default: return "bg-gray-500";
-    }
-  };
-
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "pending": return "Pendiente";
-      case "confirmed": return "Confirmado";
-      case "shipped": return "Enviado";
-      case "delivered": return "Entregado";
-      default: return status;
-    }
-  };
+  const licenseKeysFor = (order: OrderWithItems, orderItemId: string) =>
+    order.licenseKeys.filter((licenseKey) => licenseKey.orderItemId === orderItemId);
 
   const onProfileSubmit = (data: ProfileForm) => {
     updateProfileMutation.mutate(data);
@@ -202,6 +241,28 @@ export default function Profile() {
               <ShoppingBag className="w-4 h-4" />
               <span>Mis Pedidos</span>
             </button>
+            <button
+              onClick={() => setSelectedTab("addresses")}
+              className={`px-6 py-4 font-medium text-sm flex items-center space-x-2 ${
+                selectedTab === "addresses"
+                  ? "text-mint border-b-2 border-mint"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              <MapPin className="w-4 h-4" />
+              <span>Direcciones</span>
+            </button>
+            <button
+              onClick={() => setSelectedTab("courses")}
+              className={`px-6 py-4 font-medium text-sm flex items-center space-x-2 ${
+                selectedTab === "courses"
+                  ? "text-mint border-b-2 border-mint"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              <GraduationCap className="w-4 h-4" />
+              <span>Mis Cursos</span>
+            </button>
             <button
               onClick={() => setSelectedTab("password")}
               className={`px-6 py-4 font-medium text-sm flex items-center space-x-2 ${
@@ -298,7 +359,7 @@ export default function Profile() {
                       <div className="flex items-start justify-between mb-4">
                         <div>
                           <h3 className="text-lg font-semibold text-gray-900">
-                            Pedido #{order.id.slice(-8)}
+                            Pedido {formatOrderNumber(order.number)}
                           </h3>
                           <p className="text-gray-600 text-sm">
                             {new Date(order.createdAt).toLocaleDateString("es-AR")}
@@ -309,6 +370,29 @@ export default function Profile() {
                           <Badge className={`${getStatusColor(order.status)} text-white mt-2`}>
                             {getStatusLabel(order.status)}
                           </Badge>
+                          {canTransitionOrder(order.status, "cancelled") && (
+                            <div className="mt-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                data-testid={`button-cancel-order-${order.id}`}
+                                onClick={() => handleCancelOrder(order.id)}
+                                disabled={cancelOrderMutation.isPending}
+                              >
+                                <XCircle className="w-4 h-4 mr-1" />
+                                Cancelar pedido
+                              </Button>
+                            </div>
+                          )}
+                          {order.status === "pending" && order.payment && order.payment.method !== "mercadopago" && (
+                            <div className="mt-2">
+                              <Link href={`/orders/${order.id}/payment`}>
+                                <Button variant="link" size="sm" className="text-mint p-0 h-auto">
+                                  Ver instrucciones de pago
+                                </Button>
+                              </Link>
+                            </div>
+                          )}
                         </div>
                       </div>
 
@@ -340,7 +424,24 @@ export default function Profile() {
                                       )}
                                     </Badge>
                                     <span className="text-sm text-gray-600">Qty: {item.quantity}</span>
+                                    {item.refundedQuantity > 0 && (
+                                      <span className="text-sm text-gray-500">
+                                        (reembolsado: {item.refundedQuantity})
+                                      </span>
+                                    )}
                                   </div>
+                                  {item.product.usesLicenseKeys && order.payment?.status === "approved" && (
+                                    <div className="mt-1 space-y-1">
+                                      {licenseKeysFor(order, item.id).map((licenseKey) => (
+                                        <p key={licenseKey.id} className="text-sm">
+                                          Clave: <code className="font-mono bg-gray-100 px-1 rounded">{licenseKey.key}</code>
+                                        </p>
+                                      ))}
+                                      {licenseKeysFor(order, item.id).length < item.quantity - item.refundedQuantity && (
+                                        <p className="text-sm text-gray-500">Tu clave de activación se asignará en breve</p>
+                                      )}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                               <p className="font-semibold text-mint">
@@ -348,13 +449,77 @@ export default function Profile() {
                               </p>
                             </div>
                           ))}
+                          {parseFloat(order.discount) > 0 && (
+                            <div className="flex items-center justify-between text-sm text-gray-600">
+                              <span>Descuento (cupón {order.couponCode})</span>
+                              <span>-{formatPrice(order.discount)}</span>
+                            </div>
+                          )}
+                          {order.shippingMethod && (
+                            <div className="flex items-center justify-between text-sm text-gray-600">
+                              <span>
+                                {getShippingMethodLabel(order.shippingMethod)}
+                                {order.shippingAddress && ` · ${order.shippingAddress}`}
+                              </span>
+                              <span>{parseFloat(order.shippingCost) > 0 ? formatPrice(order.shippingCost) : "Gratis"}</span>
+                            </div>
+                          )}
+                          {order.trackingCode && (
+                            <div className="flex items-center justify-between text-sm text-gray-600">
+                              <span>Código de seguimiento</span>
+                              <span className="font-mono">{order.trackingCode}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
+
+                      {order.payment?.status === "approved" && order.items.some((item) => item.product.type === "digital") && (
+                        <div className="border-t pt-4 mt-4">
+                          <h4 className="font-semibold text-gray-900 mb-3">Descargas:</h4>
+                          <OrderDownloads orderId={order.id} />
+                        </div>
+                      )}
+
+                      {order.statusHistory.length > 0 && (
+                        <div className="border-t pt-4 mt-4">
+                          <h4 className="font-semibold text-gray-900 mb-3">Historial:</h4>
+                          <OrderTimeline history={order.statusHistory} />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
               </div>
             )}
+
+            <Card>
+              <CardContent className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-semibold text-gray-900">¿Compraste sin cuenta?</h3>
+                  <p className="text-gray-600 text-sm">
+                    Te enviamos un enlace a {user.email} para sumar a tu cuenta los pedidos hechos con ese email.
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => claimOrdersMutation.mutate()}
+                  disabled={claimOrdersMutation.isPending}
+                >
+                  {claimOrdersMutation.isPending ? <LoadingSpinner size="sm" /> : "Vincular pedidos"}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Addresses Tab */}
+        {selectedTab === "addresses" && <AddressBook />}
+
+        {/* Courses Tab */}
+        {selectedTab === "courses" && (
+          <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-gray-900">Mis Cursos</h2>
+            <MyCourses />
           </div>
         )}
 
@@ -20,5 +20,9 @@ export interface CheckoutForm {
   customerName: string;
   customerEmail: string;
   customerPhone: string;
-  shippingAddress: string;
+  // Only asked for when the cart has physical products
+  street: string;
+  city: string;
+  province: string;
+  postalCode: string;
 }
@@ -0,0 +1,319 @@
+CREATE TABLE "cart_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cart_id" varchar NOT NULL,
+	"product_id" varchar NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" numeric(10, 2) NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "cart_reminders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cart_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"items" jsonb NOT NULL,
+	"total" numeric(10, 2) NOT NULL,
+	"coupon_code" text,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	"restored_at" timestamp,
+	"recovered_order_id" varchar,
+	"recovered_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "carts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "carts_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "coupon_redemptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coupon_id" varchar NOT NULL,
+	"order_id" varchar NOT NULL,
+	"user_id" varchar,
+	"customer_email" text NOT NULL,
+	"discount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "coupon_redemptions_order_id_unique" UNIQUE("order_id")
+);
+--> statement-breakpoint
+CREATE TABLE "coupons" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"description" text,
+	"type" text NOT NULL,
+	"value" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"categories" jsonb,
+	"product_types" jsonb,
+	"age_ranges" jsonb,
+	"min_order_amount" numeric(10, 2),
+	"max_uses" integer,
+	"max_uses_per_user" integer,
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "coupons_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "course_lessons" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"module_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"type" text NOT NULL,
+	"video_url" text,
+	"pdf_path" text,
+	"body" text,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "course_modules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "download_links" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"order_item_id" varchar NOT NULL,
+	"product_file_id" varchar NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"max_downloads" integer NOT NULL,
+	"download_count" integer DEFAULT 0 NOT NULL,
+	"last_downloaded_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "email_outbox" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"template" text NOT NULL,
+	"template_version" integer NOT NULL,
+	"to" text NOT NULL,
+	"subject" text NOT NULL,
+	"html" text NOT NULL,
+	"dedupe_key" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_outbox_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+CREATE TABLE "lesson_progress" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"lesson_id" varchar NOT NULL,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "license_keys" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar NOT NULL,
+	"key" text NOT NULL,
+	"order_id" varchar,
+	"order_item_id" varchar,
+	"assigned_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "order_status_history" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"changed_by" varchar,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "payment_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"provider" text NOT NULL,
+	"provider_payment_id" text NOT NULL,
+	"status" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "payments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"method" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"provider_payment_id" text,
+	"provider_status" text,
+	"receipt_path" text,
+	"receipt_mime_type" text,
+	"reviewed_by" varchar,
+	"reviewed_at" timestamp,
+	"review_note" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "payments_order_id_unique" UNIQUE("order_id")
+);
+--> statement-breakpoint
+CREATE TABLE "product_files" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar NOT NULL,
+	"file_name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"removed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "refund_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"refund_id" varchar NOT NULL,
+	"order_item_id" varchar NOT NULL,
+	"quantity" integer NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"restocked" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "refunds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"payment_id" varchar NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"provider" text NOT NULL,
+	"provider_refund_id" text,
+	"note" text,
+	"created_by" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_rates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"zone_id" varchar NOT NULL,
+	"method" text NOT NULL,
+	"max_weight_grams" integer,
+	"price" numeric(10, 2) NOT NULL,
+	"delivery_time" text
+);
+--> statement-breakpoint
+CREATE TABLE "shipping_zones" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"provinces" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_addresses" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"label" text,
+	"recipient_name" text NOT NULL,
+	"phone" text NOT NULL,
+	"street" text NOT NULL,
+	"city" text NOT NULL,
+	"province" text NOT NULL,
+	"postal_code" text NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"refresh_token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"last_used_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "mp_webhook_secret" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "enabled_payment_methods" jsonb;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "bank_transfer_cbu" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "bank_transfer_alias" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "bank_transfer_holder" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "bank_transfer_bank" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "cash_pickup_instructions" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "abandoned_cart_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "abandoned_cart_delay_hours" integer DEFAULT 24 NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "abandoned_cart_coupon" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "notify_order_received" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "notify_payment_approved" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "notify_order_shipped" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "notify_order_delivered" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "alert_new_order" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "alert_low_stock" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "alert_email" text;--> statement-breakpoint
+ALTER TABLE "admin_config" ADD COLUMN "low_stock_threshold" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "discount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "refunded_quantity" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "number" serial NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_street" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_city" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_province" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_postal_code" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_method" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_cost" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "payment_method" text DEFAULT 'mercadopago' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "coupon_code" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tracking_token" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tracking_code" text;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "uses_license_keys" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "weight_grams" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "length_cm" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "width_cm" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "height_cm" integer;--> statement-breakpoint
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_cart_id_carts_id_fk" FOREIGN KEY ("cart_id") REFERENCES "public"."carts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_reminders" ADD CONSTRAINT "cart_reminders_cart_id_carts_id_fk" FOREIGN KEY ("cart_id") REFERENCES "public"."carts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_reminders" ADD CONSTRAINT "cart_reminders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cart_reminders" ADD CONSTRAINT "cart_reminders_recovered_order_id_orders_id_fk" FOREIGN KEY ("recovered_order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "carts" ADD CONSTRAINT "carts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_coupon_id_coupons_id_fk" FOREIGN KEY ("coupon_id") REFERENCES "public"."coupons"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_lessons" ADD CONSTRAINT "course_lessons_module_id_course_modules_id_fk" FOREIGN KEY ("module_id") REFERENCES "public"."course_modules"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_modules" ADD CONSTRAINT "course_modules_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "download_links" ADD CONSTRAINT "download_links_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "download_links" ADD CONSTRAINT "download_links_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "download_links" ADD CONSTRAINT "download_links_product_file_id_product_files_id_fk" FOREIGN KEY ("product_file_id") REFERENCES "public"."product_files"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lesson_progress" ADD CONSTRAINT "lesson_progress_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lesson_progress" ADD CONSTRAINT "lesson_progress_lesson_id_course_lessons_id_fk" FOREIGN KEY ("lesson_id") REFERENCES "public"."course_lessons"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "license_keys" ADD CONSTRAINT "license_keys_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "license_keys" ADD CONSTRAINT "license_keys_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "license_keys" ADD CONSTRAINT "license_keys_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_files" ADD CONSTRAINT "product_files_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refund_items" ADD CONSTRAINT "refund_items_refund_id_refunds_id_fk" FOREIGN KEY ("refund_id") REFERENCES "public"."refunds"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refund_items" ADD CONSTRAINT "refund_items_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_zone_id_shipping_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "public"."shipping_zones"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_addresses" ADD CONSTRAINT "user_addresses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "cart_items_cart_product_idx" ON "cart_items" USING btree ("cart_id","product_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "download_links_item_file_idx" ON "download_links" USING btree ("order_item_id","product_file_id");--> statement-breakpoint
+CREATE INDEX "email_outbox_due_idx" ON "email_outbox" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "lesson_progress_user_lesson_idx" ON "lesson_progress" USING btree ("user_id","lesson_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "license_keys_product_key_idx" ON "license_keys" USING btree ("product_id","key");--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_events_provider_payment_status_idx" ON "payment_events" USING btree ("provider","provider_payment_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "user_addresses_default_idx" ON "user_addresses" USING btree ("user_id") WHERE "user_addresses"."is_default";--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_number_unique" UNIQUE("number");--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_tracking_token_unique" UNIQUE("tracking_token");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TABLE "data_migrations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"applied_at" timestamp DEFAULT now() NOT NULL
+);
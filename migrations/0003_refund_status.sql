@@ -0,0 +1,2 @@
+ALTER TABLE "refunds" ADD COLUMN "status" text DEFAULT 'completed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "refunds" ADD COLUMN "restock" boolean DEFAULT false NOT NULL;
\ No newline at end of file
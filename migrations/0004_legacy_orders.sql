@@ -0,0 +1,22 @@
+-- Orders placed before payments were tracked separately. Only MercadoPago
+-- existed then, and every status past pending meant the payment came in.
+INSERT INTO "payments" ("order_id", "method", "status", "amount", "created_at", "updated_at")
+SELECT
+	"orders"."id",
+	'mercadopago',
+	CASE "orders"."status" WHEN 'pending' THEN 'pending' WHEN 'cancelled' THEN 'cancelled' ELSE 'approved' END,
+	"orders"."total",
+	"orders"."created_at",
+	now()
+FROM "orders"
+WHERE NOT EXISTS (SELECT 1 FROM "payments" WHERE "payments"."order_id" = "orders"."id");
+--> statement-breakpoint
+-- Those with physical products were sent home; their address is only kept
+-- as one line
+UPDATE "orders" SET "shipping_method" = 'home'
+WHERE "shipping_method" IS NULL
+	AND EXISTS (
+		SELECT 1 FROM "order_items"
+		INNER JOIN "products" ON "products"."id" = "order_items"."product_id"
+		WHERE "order_items"."order_id" = "orders"."id" AND "products"."type" = 'physical'
+	);
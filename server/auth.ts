@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { User, UserSession } from "@shared/schema";
+import { storage } from "./storage";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      authSession?: UserSession;
+    }
+  }
+}
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface AccessTokenPayload {
+  sub: string; // user id
+  sid: string; // session id
+  exp: number; // expiry, epoch milliseconds
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+}
+
+export interface AuthContext {
+  user: User;
+  session: UserSession;
+}
+
+let devSecret: string | undefined;
+
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Development fallback: tokens stop validating whenever the server restarts.
+  if (!devSecret) {
+    devSecret = crypto.randomBytes(32).toString("hex");
+    console.warn("SESSION_SECRET not set, using an ephemeral development secret");
+  }
+  return devSecret;
+}
+
+// Also signs download URLs (see downloads.ts)
+export function sign(value: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(value).digest("base64url");
+}
+
+function hashRefreshSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+function createAccessToken(userId: string, sessionId: string): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + ACCESS_TOKEN_TTL_MS);
+  const payload: AccessTokenPayload = { sub: userId, sid: sessionId, exp: expiresAt.getTime() };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt };
+}
+
+function decodeAccessToken(token: string): AccessTokenPayload | null {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) return null;
+  if (!safeEqual(signature, sign(encoded))) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (typeof payload.sub !== "string" || typeof payload.sid !== "string" || typeof payload.exp !== "number") {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Refresh tokens are opaque "<sessionId>.<secret>" strings; only a hash of
+// the secret is stored, and it is replaced on every refresh.
+function parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+  const [sessionId, secret, ...rest] = refreshToken.split(".");
+  if (!sessionId || !secret || rest.length > 0) return null;
+  return { sessionId, secret };
+}
+
+export async function issueSession(user: User): Promise<IssuedTokens> {
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const session = await storage.createSession(
+    user.id,
+    hashRefreshSecret(secret),
+    new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  );
+
+  const { token, expiresAt } = createAccessToken(user.id, session.id);
+  return { token, refreshToken: `${session.id}.${secret}`, expiresAt: expiresAt.toISOString() };
+}
+
+export async function refreshSession(refreshToken: string): Promise<(IssuedTokens & { user: User }) | null> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return null;
+
+  const session = await storage.getSession(parsed.sessionId);
+  if (!session || session.revokedAt || session.expiresAt < new Date()) return null;
+
+  const presentedHash = hashRefreshSecret(parsed.secret);
+  if (!safeEqual(presentedHash, session.refreshTokenHash)) {
+    // A rotated-out token is being replayed: assume it leaked and end the session.
+    await storage.revokeSession(session.id);
+    return null;
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user) return null;
+
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const rotated = await storage.rotateSession(
+    session.id,
+    presentedHash,
+    hashRefreshSecret(secret),
+    new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  );
+  if (!rotated) return null;
+
+  const { token, expiresAt } = createAccessToken(user.id, session.id);
+  return { user, token, refreshToken: `${session.id}.${secret}`, expiresAt: expiresAt.toISOString() };
+}
+
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return;
+
+  const session = await storage.getSession(parsed.sessionId);
+  if (session && safeEqual(hashRefreshSecret(parsed.secret), session.refreshTokenHash)) {
+    await storage.revokeSession(session.id);
+  }
+}
+
+export async function verifyAccessToken(token: string): Promise<AuthContext> {
+  const payload = decodeAccessToken(token);
+  if (!payload || payload.exp < Date.now()) {
+    throw new UnauthorizedError("Token inválido");
+  }
+
+  const session = await storage.getSession(payload.sid);
+  if (!session || session.revokedAt || session.userId !== payload.sub) {
+    throw new UnauthorizedError("Token inválido");
+  }
+
+  const user = await storage.getUser(payload.sub);
+  if (!user) {
+    throw new UnauthorizedError();
+  }
+
+  return { user, session };
+}
+
+export async function authenticate(req: Request): Promise<AuthContext> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    throw new UnauthorizedError();
+  }
+
+  return verifyAccessToken(authHeader.substring(7));
+}
+
+export const requireAuth: RequestHandler = async (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    const { user, session } = await authenticate(req);
+    req.user = user;
+    req.authSession = session;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// For routes open to guests that act on the account when there is one. A
+// token that is sent but no longer valid is still rejected, so the client
+// refreshes it instead of silently carrying on as a guest.
+export const optionalAuth: RequestHandler = async (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    if (req.headers.authorization) {
+      const { user, session } = await authenticate(req);
+      req.user = user;
+      req.authSession = session;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export function requireRole(...roles: string[]): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const { user, session } = await authenticate(req);
+      if (!roles.includes(user.role)) {
+        throw new ForbiddenError();
+      }
+      req.user = user;
+      req.authSession = session;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// For handlers mounted behind requireAuth.
+export function currentUser(req: Request): User {
+  if (!req.user) {
+    throw new UnauthorizedError();
+  }
+  return req.user;
+}
@@ -0,0 +1,130 @@
+import type { CartRecoveryReport, CartReminder, Order, RestoredCart } from "@shared/schema";
+import { safeEqual, sign } from "./auth";
+import { isEmailConfigured, queueEmail } from "./email";
+import { fromCents, toCents } from "./money";
+import { storage, type IdleCart } from "./storage";
+import { log } from "./vite";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CART_REMINDER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// Carts idle for longer than this (e.g. when reminders are first turned on)
+// are left alone rather than reminded of weeks later
+const MAX_IDLE_MS = 7 * DAY_MS;
+// Restore links keep working, and orders count as recovered, for this long
+// after the reminder was sent
+export const RESTORE_LINK_TTL_MS = 30 * DAY_MS;
+export const RECOVERY_WINDOW_MS = 7 * DAY_MS;
+
+function restoreSignature(id: string): string {
+  return sign(`cart-reminder:${id}`);
+}
+
+// Restore links are opened from the email, possibly on a device where the
+// user is not signed in, so they carry an HMAC over the reminder id
+export function signedRestoreUrl(baseUrl: string, reminder: CartReminder): string {
+  return `${baseUrl}/cart/restore/${reminder.id}?signature=${restoreSignature(reminder.id)}`;
+}
+
+export function verifyRestoreSignature(reminder: CartReminder, signature: string): boolean {
+  return safeEqual(signature, restoreSignature(reminder.id));
+}
+
+// Returns what the restore link puts back in the browser's cart, or
+// undefined once the link expired
+export async function restoreCart(reminder: CartReminder, now = new Date()): Promise<RestoredCart | undefined> {
+  if (reminder.sentAt.getTime() + RESTORE_LINK_TTL_MS <= now.getTime()) {
+    return undefined;
+  }
+  await storage.markCartReminderRestored(reminder.id);
+  return { items: reminder.items, couponCode: reminder.couponCode };
+}
+
+async function remindCart(idle: IdleCart, baseUrl: string, couponCode: string | null): Promise<boolean> {
+  const cart = await storage.getCart(idle.userId);
+  const items = (cart?.items ?? []).filter((item) => item.product.isActive);
+  if (!cart || items.length === 0) return false;
+
+  const totalCents = items.reduce((sum, item) => sum + toCents(item.unitPrice) * item.quantity, 0);
+
+  // Recorded first so the restore link has an id; dropped again if the email
+  // cannot be queued, so the cart is retried on the next run
+  const reminder = await storage.createCartReminder({
+    cartId: cart.id,
+    userId: idle.userId,
+    items: items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+    total: fromCents(totalCents),
+    couponCode,
+  });
+
+  try {
+    await queueEmail(idle.userEmail, "cart_reminder", {
+      name: idle.userName,
+      items: items.map((item) => ({ name: item.product.name, quantity: item.quantity, price: item.product.price })),
+      couponCode,
+      restoreUrl: signedRestoreUrl(baseUrl, reminder),
+    });
+    return true;
+  } catch (error) {
+    await storage.deleteCartReminder(reminder.id);
+    throw error;
+  }
+}
+
+// Emails every signed-in user whose cart sat idle for the configured delay.
+// Returns how many reminders were queued.
+export async function sendCartReminders(baseUrl: string, now = new Date()): Promise<number> {
+  const config = await storage.getAdminConfig();
+  // Without SMTP the reminders would only pile up in the outbox
+  if (!config?.abandonedCartEnabled || !(await isEmailConfigured())) return 0;
+
+  const idleSince = new Date(now.getTime() - config.abandonedCartDelayHours * HOUR_MS);
+  const notBefore = new Date(idleSince.getTime() - MAX_IDLE_MS);
+
+  let sent = 0;
+  for (const idle of await storage.getIdleCarts(idleSince, notBefore)) {
+    try {
+      if (await remindCart(idle, baseUrl, config.abandonedCartCoupon)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Could not queue the cart reminder to ${idle.userEmail}:`, error);
+    }
+  }
+  return sent;
+}
+
+// Runs sendCartReminders in the background for the life of the process
+export function startCartReminderJob(baseUrl: string): void {
+  let running = false;
+  setInterval(async () => {
+    // A slow run must not overlap the next one
+    if (running) return;
+    running = true;
+    try {
+      const sent = await sendCartReminders(baseUrl);
+      if (sent > 0) {
+        log(`Queued ${sent} cart reminder(s)`, "cart-reminders");
+      }
+    } catch (error) {
+      console.error("Cart reminder job failed:", error);
+    } finally {
+      running = false;
+    }
+  }, CART_REMINDER_CHECK_INTERVAL_MS).unref();
+}
+
+// Called for every new order
+export async function recordCartRecovery(order: Order, now = new Date()): Promise<void> {
+  await storage.recordCartRecovery(order, new Date(now.getTime() - RECOVERY_WINDOW_MS));
+}
+
+export async function getCartRecoveryReport(days: number, now = new Date()): Promise<CartRecoveryReport> {
+  const stats = await storage.getCartRecoveryStats(new Date(now.getTime() - days * DAY_MS));
+  return {
+    days,
+    ...stats,
+    recoveryRate: stats.sent === 0 ? 0 : Math.round((stats.recovered / stats.sent) * 1000) / 10,
+  };
+}
@@ -0,0 +1,134 @@
+import type { CartItemInput, CartNotice, CartView } from "@shared/schema";
+import { formatPrice, toCents } from "./money";
+import { storage, type SavedCartItem } from "./storage";
+
+interface PendingCartItem extends CartItemInput {
+  unitPrice?: string; // unset for items the server cart did not have yet
+}
+
+// Checks a cart against the current catalogue: unavailable products are
+// dropped, quantities are capped at the stock and prices are refreshed. Each
+// change is reported as a notice.
+async function revalidate(pending: PendingCartItem[]): Promise<{ items: SavedCartItem[]; notices: CartNotice[] }> {
+  const found = await storage.getProductsByIds(pending.map((item) => item.productId));
+  const productsById = new Map(found.map((product) => [product.id, product]));
+
+  const items: SavedCartItem[] = [];
+  const notices: CartNotice[] = [];
+
+  for (const item of pending) {
+    const product = productsById.get(item.productId);
+    if (!product) {
+      notices.push({ productId: item.productId, code: "not_found", message: "Un producto de tu carrito ya no existe y lo quitamos" });
+      continue;
+    }
+    if (!product.isActive) {
+      notices.push({
+        productId: product.id,
+        productName: product.name,
+        code: "inactive",
+        message: `${product.name} ya no está disponible y lo quitamos de tu carrito`,
+      });
+      continue;
+    }
+
+    let quantity = item.quantity;
+    if (product.type === "physical" && product.stock !== null && product.stock < quantity) {
+      const available = Math.max(product.stock, 0);
+      notices.push({
+        productId: product.id,
+        productName: product.name,
+        code: "out_of_stock",
+        message: available > 0
+          ? `Solo quedan ${available} unidades de ${product.name}; ajustamos la cantidad`
+          : `${product.name} se quedó sin stock y lo quitamos de tu carrito`,
+        available,
+      });
+      if (available === 0) continue;
+      quantity = available;
+    }
+
+    if (item.unitPrice !== undefined && toCents(item.unitPrice) !== toCents(product.price)) {
+      notices.push({
+        productId: product.id,
+        productName: product.name,
+        code: "price_changed",
+        message: `El precio de ${product.name} cambió de ${formatPrice(item.unitPrice)} a ${formatPrice(product.price)}`,
+      });
+    }
+
+    items.push({ productId: product.id, quantity, unitPrice: product.price });
+  }
+
+  return { items, notices };
+}
+
+// Repeated lines are combined, as in an order
+function combine(items: CartItemInput[]): CartItemInput[] {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+  }
+  return Array.from(quantities, ([productId, quantity]) => ({ productId, quantity }));
+}
+
+async function storedPrices(userId: string): Promise<Map<string, string>> {
+  const cart = await storage.getCart(userId);
+  return new Map((cart?.items ?? []).map((item) => [item.productId, item.unitPrice]));
+}
+
+function toView(items: SavedCartItem[], notices: CartNotice[]): CartView {
+  return { items: items.map(({ productId, quantity }) => ({ productId, quantity })), notices };
+}
+
+async function save(userId: string, pending: PendingCartItem[]): Promise<CartView> {
+  const { items, notices } = await revalidate(pending);
+  await storage.saveCart(userId, items);
+  return toView(items, notices);
+}
+
+export async function getUserCart(userId: string): Promise<CartView> {
+  const cart = await storage.getCart(userId);
+  if (!cart) return { items: [], notices: [] };
+
+  const { items, notices } = await revalidate(cart.items);
+  // Only write back when something changed, so updatedAt keeps telling when
+  // the user last touched the cart
+  if (notices.length > 0) {
+    await storage.saveCart(userId, items);
+  }
+  return toView(items, notices);
+}
+
+// The browser sends its whole cart after every change
+export async function replaceUserCart(userId: string, items: CartItemInput[]): Promise<CartView> {
+  const prices = await storedPrices(userId);
+  return await save(userId, combine(items).map((item) => ({ ...item, unitPrice: prices.get(item.productId) })));
+}
+
+// Placing an order empties the saved cart on the server, since the browser
+// may leave the page before its own update goes out
+export async function clearUserCart(userId: string): Promise<void> {
+  await storage.saveCart(userId, []);
+}
+
+// At login the cart built while signed out joins the saved one. A product in
+// both keeps the larger quantity: the local cart usually mirrors the saved
+// one already, so adding them up would double it.
+export async function mergeUserCart(userId: string, localItems: CartItemInput[]): Promise<CartView> {
+  const cart = await storage.getCart(userId);
+  const merged = new Map<string, PendingCartItem>(
+    (cart?.items ?? []).map((item) => [item.productId, { productId: item.productId, quantity: item.quantity, unitPrice: item.unitPrice }]),
+  );
+
+  for (const item of combine(localItems)) {
+    const saved = merged.get(item.productId);
+    merged.set(item.productId, {
+      productId: item.productId,
+      quantity: Math.max(item.quantity, saved?.quantity ?? 0),
+      unitPrice: saved?.unitPrice,
+    });
+  }
+
+  return await save(userId, Array.from(merged.values()));
+}
@@ -0,0 +1,113 @@
+import type { Coupon, CouponQuote, CouponType, Product } from "@shared/schema";
+import { ValidationError } from "./errors";
+import { formatPrice, fromCents, toCents } from "./money";
+
+export interface CouponLine {
+  product: Product;
+  quantity: number;
+}
+
+// Redemptions so far, not counting cancelled orders
+export interface CouponUsage {
+  total: number;
+  byCustomer: number;
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  discountCents: number;
+  // Each eligible product's share of the discount, in cents
+  lineDiscounts: Map<string, number>;
+  freeShipping: boolean;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function inScope(scope: string[] | null, value: string): boolean {
+  return !scope || scope.length === 0 || scope.includes(value);
+}
+
+export function couponAppliesTo(coupon: Coupon, product: Product): boolean {
+  return inScope(coupon.categories, product.category)
+    && inScope(coupon.productTypes, product.type)
+    && inScope(coupon.ageRanges, product.ageRange);
+}
+
+function couponError(message: string): ValidationError {
+  // The field lets the checkout tell coupon problems from per-line errors
+  return new ValidationError(message, { field: "couponCode" });
+}
+
+// Checks the coupon against the order and works out the discount. Percentage
+// and fixed discounts only count eligible products; the minimum order is
+// checked against the whole subtotal.
+export function applyCoupon(
+  coupon: Coupon | undefined,
+  lines: CouponLine[],
+  usage: CouponUsage,
+  now = new Date(),
+): AppliedCoupon {
+  if (!coupon || !coupon.isActive) {
+    throw couponError("El cupón no existe o ya no está disponible");
+  }
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw couponError("El cupón todavía no está vigente");
+  }
+  if (coupon.endsAt && coupon.endsAt <= now) {
+    throw couponError("El cupón venció");
+  }
+  if (coupon.maxUses !== null && usage.total >= coupon.maxUses) {
+    throw couponError("El cupón alcanzó su límite de usos");
+  }
+  if (coupon.maxUsesPerUser !== null && usage.byCustomer >= coupon.maxUsesPerUser) {
+    throw couponError("Ya usaste este cupón la cantidad de veces permitida");
+  }
+
+  const subtotalCents = lines.reduce((sum, line) => sum + toCents(line.product.price) * line.quantity, 0);
+  if (coupon.minOrderAmount && subtotalCents < toCents(coupon.minOrderAmount)) {
+    throw couponError(`El cupón requiere una compra mínima de ${formatPrice(coupon.minOrderAmount)}`);
+  }
+
+  // Free shipping only makes sense for products that ship
+  const eligible = lines.filter((line) =>
+    couponAppliesTo(coupon, line.product) && (coupon.type !== "free_shipping" || line.product.type === "physical"));
+  if (eligible.length === 0) {
+    throw couponError("El cupón no aplica a los productos de tu carrito");
+  }
+
+  if (coupon.type === "free_shipping") {
+    return { coupon, discountCents: 0, lineDiscounts: new Map(), freeShipping: true };
+  }
+
+  const eligibleCents = eligible.reduce((sum, line) => sum + toCents(line.product.price) * line.quantity, 0);
+  const discountCents = coupon.type === "percentage"
+    ? Math.round((eligibleCents * parseFloat(coupon.value)) / 100)
+    : Math.min(toCents(coupon.value), eligibleCents);
+
+  // Spread over the eligible lines in proportion to their amount so partial
+  // refunds give back the discounted price; the last line takes the rounding
+  const lineDiscounts = new Map<string, number>();
+  let allocated = 0;
+  eligible.forEach((line, index) => {
+    const lineCents = toCents(line.product.price) * line.quantity;
+    const share = index === eligible.length - 1
+      ? discountCents - allocated
+      : Math.floor((discountCents * lineCents) / eligibleCents);
+    lineDiscounts.set(line.product.id, share);
+    allocated += share;
+  });
+
+  return { coupon, discountCents, lineDiscounts, freeShipping: false };
+}
+
+export function toCouponQuote({ coupon, discountCents, freeShipping }: AppliedCoupon): CouponQuote {
+  return {
+    code: coupon.code,
+    type: coupon.type as CouponType,
+    description: coupon.description,
+    discount: fromCents(discountCents),
+    freeShipping,
+  };
+}
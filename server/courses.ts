@@ -0,0 +1,113 @@
+import type {
+  CourseLesson,
+  CourseLessonView,
+  CourseProgressReport,
+  CourseSummary,
+  CourseView,
+  LessonType,
+  Product,
+  User,
+} from "@shared/schema";
+import { ForbiddenError } from "./errors";
+import { storage } from "./storage";
+
+export const MAX_LESSON_PDF_BYTES = 50 * 1024 * 1024;
+
+// Admins can open every course (e.g. to review the content); everyone else
+// needs a paid order for the product
+export async function assertCourseAccess(user: User, productId: string): Promise<void> {
+  if (user.role === "admin") return;
+  if (!(await storage.hasPurchasedProduct(user.id, productId))) {
+    throw new ForbiddenError("No tenés acceso a este curso");
+  }
+}
+
+function toLessonView(lesson: CourseLesson, completed: boolean): CourseLessonView {
+  return {
+    id: lesson.id,
+    moduleId: lesson.moduleId,
+    title: lesson.title,
+    type: lesson.type as LessonType,
+    videoUrl: lesson.videoUrl,
+    body: lesson.body,
+    hasPdf: !!lesson.pdfPath,
+    position: lesson.position,
+    completed,
+  };
+}
+
+// The course as one learner sees it, with their completed lessons
+export async function getCourseView(product: Product, userId: string): Promise<CourseView> {
+  const [modules, lessons, completedIds] = await Promise.all([
+    storage.getCourseModules(product.id),
+    storage.getCourseLessons(product.id),
+    storage.getCompletedLessonIds(userId, product.id),
+  ]);
+  const completed = new Set(completedIds);
+
+  return {
+    productId: product.id,
+    productName: product.name,
+    imageUrl: product.imageUrl,
+    totalLessons: lessons.length,
+    completedLessons: lessons.filter((lesson) => completed.has(lesson.id)).length,
+    modules: modules.map((courseModule) => ({
+      id: courseModule.id,
+      title: courseModule.title,
+      position: courseModule.position,
+      lessons: lessons
+        .filter((lesson) => lesson.moduleId === courseModule.id)
+        .map((lesson) => toLessonView(lesson, completed.has(lesson.id))),
+    })),
+  };
+}
+
+export async function getUserCourses(userId: string): Promise<CourseSummary[]> {
+  const courses: CourseSummary[] = [];
+  for (const productId of await storage.getPurchasedCourseIds(userId)) {
+    const product = await storage.getProduct(productId);
+    if (!product) continue;
+
+    const { modules, ...summary } = await getCourseView(product, userId);
+    courses.push(summary);
+  }
+  return courses;
+}
+
+export async function getCourseProgressReport(productId: string): Promise<CourseProgressReport> {
+  const [modules, lessons, learnerIds] = await Promise.all([
+    storage.getCourseModules(productId),
+    storage.getCourseLessons(productId),
+    storage.getProductBuyerIds(productId),
+  ]);
+
+  // Progress of lessons deleted since, or of users who lost access, is ignored
+  const lessonIds = new Set(lessons.map((lesson) => lesson.id));
+  const completions = (await storage.getLessonCompletions(productId, learnerIds))
+    .filter((completion) => lessonIds.has(completion.lessonId));
+
+  const perLearner = new Map<string, number>();
+  const perLesson = new Map<string, number>();
+  for (const { userId, lessonId } of completions) {
+    perLearner.set(userId, (perLearner.get(userId) ?? 0) + 1);
+    perLesson.set(lessonId, (perLesson.get(lessonId) ?? 0) + 1);
+  }
+
+  const totalPercent = lessons.length === 0 ? 0 : learnerIds
+    .reduce((sum, userId) => sum + ((perLearner.get(userId) ?? 0) / lessons.length) * 100, 0);
+
+  return {
+    learners: learnerIds.length,
+    completedCourse: lessons.length === 0 ? 0 : learnerIds
+      .filter((userId) => perLearner.get(userId) === lessons.length).length,
+    averageCompletion: learnerIds.length === 0 ? 0 : Math.round(totalPercent / learnerIds.length),
+    lessons: modules.flatMap((courseModule) => lessons
+      .filter((lesson) => lesson.moduleId === courseModule.id)
+      .map((lesson) => ({
+        lessonId: lesson.id,
+        title: lesson.title,
+        moduleTitle: courseModule.title,
+        completedBy: perLesson.get(lesson.id) ?? 0,
+      }))),
+  };
+}
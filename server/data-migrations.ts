@@ -0,0 +1,33 @@
+import { eq } from "drizzle-orm";
+import { users } from "@shared/schema";
+import type { db } from "./db";
+import { hashPassword, isPasswordHash } from "./password";
+
+export type MigrationTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// One-off changes to existing data that need application code. Each runs
+// once, after every SQL migration, in a transaction together with its row in
+// data_migrations. Ids are permanent: only append entries, never rename or
+// reorder one that may have run somewhere.
+//
+// Backfills plain SQL can express (e.g. filling a new column from others)
+// belong in a custom SQL migration instead: npm run db:generate -- --custom
+export interface DataMigration {
+  id: string;
+  run(tx: MigrationTransaction): Promise<void>;
+}
+
+export const DATA_MIGRATIONS: DataMigration[] = [
+  {
+    // Passwords saved before hashing was introduced were only upgraded on the
+    // account's next login; this hashes the ones still waiting
+    id: "0001_hash_plaintext_passwords",
+    run: async (tx) => {
+      const rows = await tx.select({ id: users.id, password: users.password }).from(users);
+      for (const user of rows) {
+        if (isPasswordHash(user.password)) continue;
+        await tx.update(users).set({ password: await hashPassword(user.password) }).where(eq(users.id, user.id));
+      }
+    },
+  },
+];
@@ -0,0 +1,75 @@
+import type { DownloadLink, DownloadStatus, OrderDownload, OrderWithItems } from "@shared/schema";
+import { safeEqual, sign } from "./auth";
+import { storage, type DownloadLinkWithFile } from "./storage";
+
+// Each purchased file can be downloaded this many times within this window
+export const DOWNLOAD_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const MAX_DOWNLOADS = 5;
+export const MAX_PRODUCT_FILE_BYTES = 100 * 1024 * 1024;
+
+function downloadSignature(id: string, expires: number): string {
+  return sign(`download:${id}:${expires}`);
+}
+
+// Download URLs work without logging in (they are emailed), so they carry
+// their own proof: an HMAC over the link id and its expiry.
+export function signedDownloadUrl(baseUrl: string, link: DownloadLink): string {
+  const expires = link.expiresAt.getTime();
+  return `${baseUrl}/api/downloads/${link.id}?expires=${expires}&signature=${downloadSignature(link.id, expires)}`;
+}
+
+export function verifyDownloadUrl(link: DownloadLink, expires: string, signature: string): boolean {
+  const expiresAt = Number(expires);
+  return expiresAt === link.expiresAt.getTime() && safeEqual(signature, downloadSignature(link.id, expiresAt));
+}
+
+export function downloadStatus(link: DownloadLinkWithFile, now = new Date()): DownloadStatus {
+  if (link.revokedAt) return "revoked";
+  if (link.file.removedAt) return "unavailable";
+  if (link.expiresAt <= now) return "expired";
+  if (link.downloadCount >= link.maxDownloads) return "exhausted";
+  return "active";
+}
+
+// Creates links for every file of the order's digital lines that were not
+// fully refunded. Links that already exist are kept as they are; only the
+// new ones are returned.
+export async function issueDownloadLinks(order: OrderWithItems): Promise<DownloadLink[]> {
+  const expiresAt = new Date(Date.now() + DOWNLOAD_LINK_TTL_MS);
+  const links = [];
+
+  for (const item of order.items) {
+    if (item.product.type !== "digital" || item.refundedQuantity >= item.quantity) continue;
+
+    const files = await storage.getProductFiles(item.productId);
+    for (const file of files) {
+      links.push({
+        orderId: order.id,
+        orderItemId: item.id,
+        productFileId: file.id,
+        expiresAt,
+        maxDownloads: MAX_DOWNLOADS,
+      });
+    }
+  }
+
+  return storage.createDownloadLinks(links);
+}
+
+export async function getOrderDownloads(orderId: string, baseUrl: string): Promise<OrderDownload[]> {
+  const links = await storage.getOrderDownloadLinks(orderId);
+  return links.map((link) => {
+    const status = downloadStatus(link);
+    return {
+      id: link.id,
+      orderItemId: link.orderItemId,
+      productName: link.productName,
+      fileName: link.file.fileName,
+      size: link.file.size,
+      expiresAt: link.expiresAt.toISOString(),
+      downloadsLeft: Math.max(link.maxDownloads - link.downloadCount, 0),
+      status,
+      url: status === "active" ? signedDownloadUrl(baseUrl, link) : null,
+    };
+  });
+}
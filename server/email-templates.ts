@@ -0,0 +1,282 @@
+import {
+  formatOrderNumber,
+  type EmailTemplateName,
+  type LicenseKey,
+  type OrderDownload,
+  type OrderWithItems,
+  type PaymentMethodId,
+  type ShippingMethod,
+} from "@shared/schema";
+import { formatPrice } from "./money";
+import { getPaymentMethod } from "./payment-methods";
+import { SHIPPING_METHOD_LABELS } from "./shipping";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+// What each template is rendered from
+export interface EmailTemplateData {
+  welcome: { name: string; shopUrl: string };
+  order_received: { order: OrderWithItems; trackingUrl: string | null };
+  payment_approved: { order: OrderWithItems; downloads: OrderDownload[]; keys: LicenseKey[] };
+  shipped: { order: OrderWithItems; trackingUrl: string | null };
+  delivered: { order: OrderWithItems; shopUrl: string };
+  password_reset: { name: string; token: string };
+  cart_reminder: {
+    name: string;
+    items: { name: string; quantity: number; price: string }[];
+    couponCode: string | null;
+    restoreUrl: string;
+  };
+  order_claim: { name: string; email: string; claimUrl: string };
+  owner_new_order: { order: OrderWithItems; adminUrl: string };
+  owner_low_stock: { productName: string; stock: number; threshold: number; adminUrl: string };
+}
+
+// Bump version whenever a template's content changes; queued emails record
+// the version they were rendered with.
+interface EmailTemplate<Data> {
+  version: number;
+  render(data: Data): RenderedEmail;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function button(url: string, label: string): string {
+  return `
+      <p>
+        <a href="${url}" style="background-color: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+          ${label}
+        </a>
+      </p>`;
+}
+
+function orderSummary(order: OrderWithItems): string {
+  const discountHtml = parseFloat(order.discount) > 0 ? `
+        <li>Descuento (cupón ${escapeHtml(order.couponCode ?? "")}): -${formatPrice(order.discount)}</li>` : "";
+  const shippingHtml = order.shippingMethod ? `
+        <li>${SHIPPING_METHOD_LABELS[order.shippingMethod as ShippingMethod]}: ${
+          parseFloat(order.shippingCost) > 0 ? formatPrice(order.shippingCost) : "gratis"}</li>` : "";
+
+  return `
+      <ul>${order.items.map((item) => `
+        <li style="margin-bottom: 10px;">
+          ${escapeHtml(item.product.name)} × ${item.quantity} — ${formatPrice(item.price)}
+        </li>`).join("")}
+      </ul>
+      <ul>${discountHtml}${shippingHtml}
+        <li><strong>Total: ${formatPrice(order.total)}</strong></li>
+      </ul>`;
+}
+
+const templates: { [Name in EmailTemplateName]: EmailTemplate<EmailTemplateData[Name]> } = {
+  welcome: {
+    version: 1,
+    render: ({ name, shopUrl }) => ({
+      subject: "¡Bienvenida/o a EduJuegos!",
+      html: `
+      <h2>¡Gracias por registrarte!</h2>
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Ya tenés tu cuenta en EduJuegos. Desde ahí podés seguir tus pedidos, guardar tus direcciones y acceder a tus cursos y descargas.</p>
+      ${button(`${shopUrl}/products`, "Ver productos")}
+    `,
+    }),
+  },
+
+  // Guests get the link to the tracking page; account holders find the
+  // order under "Mis Pedidos"
+  order_received: {
+    version: 1,
+    render: ({ order, trackingUrl }) => ({
+      subject: `Recibimos tu pedido ${formatOrderNumber(order.number)}`,
+      html: `
+      <h2>¡Gracias por tu compra!</h2>
+      <p>Hola ${escapeHtml(order.customerName)},</p>
+      <p>Registramos tu pedido ${formatOrderNumber(order.number)}:</p>
+      ${orderSummary(order)}
+      ${trackingUrl ? `${button(trackingUrl, "Seguir mi pedido")}
+      <p>Guardá este email: el enlace es la forma de consultar el pedido sin cuenta. Si te registrás con este email, vas a poder vincularlo a tu cuenta.</p>` : `
+      <p>Podés seguir el estado del pedido en "Mis Pedidos".</p>`}
+    `,
+    }),
+  },
+
+  // Carries whatever was delivered digitally along with the approval
+  payment_approved: {
+    version: 1,
+    render: ({ order, downloads, keys }) => {
+      const productName = (orderItemId: string | null) =>
+        order.items.find((item) => item.id === orderItemId)?.product.name ?? "";
+
+      const downloadsHtml = downloads.length === 0 ? "" : `
+      <p>Ya podés descargar tus productos digitales:</p>
+      <ul>${downloads.map((download) => `
+        <li style="margin-bottom: 10px;">
+          <strong>${escapeHtml(download.productName)}</strong><br>
+          <a href="${download.url}">${escapeHtml(download.fileName)}</a>
+        </li>`).join("")}
+      </ul>
+      <p>Cada enlace vence el ${new Date(downloads[0].expiresAt).toLocaleDateString("es-AR")} y admite ${downloads[0].downloadsLeft} descargas.</p>`;
+
+      const keysHtml = keys.length === 0 ? "" : `
+      <p>Tus claves de activación:</p>
+      <ul>${keys.map((key) => `
+        <li style="margin-bottom: 10px;">
+          <strong>${escapeHtml(productName(key.orderItemId))}</strong><br>
+          <code style="font-size: 16px; letter-spacing: 1px;">${escapeHtml(key.key)}</code>
+        </li>`).join("")}
+      </ul>`;
+
+      const delivered = downloads.length > 0 || keys.length > 0;
+      return {
+        subject: delivered
+          ? "Tus productos digitales están listos"
+          : `Confirmamos el pago de tu pedido ${formatOrderNumber(order.number)}`,
+        html: `
+      <h2>¡Gracias por tu compra!</h2>
+      <p>Hola ${escapeHtml(order.customerName)},</p>
+      <p>Tu pago del pedido ${formatOrderNumber(order.number)} fue acreditado.</p>
+      ${downloadsHtml}
+      ${keysHtml}
+      <p>${delivered
+        ? `Si creaste una cuenta, también vas a encontrar todo en "Mis Pedidos".`
+        : "Te avisamos cuando despachemos tu pedido."}</p>
+    `,
+      };
+    },
+  },
+
+  shipped: {
+    version: 2,
+    render: ({ order, trackingUrl }) => ({
+      subject: `Despachamos tu pedido ${formatOrderNumber(order.number)}`,
+      html: `
+      <h2>¡Tu pedido está en camino!</h2>
+      <p>Hola ${escapeHtml(order.customerName)},</p>
+      <p>Despachamos tu pedido ${formatOrderNumber(order.number)}.</p>
+      ${order.shippingMethod ? `
+      <p>${SHIPPING_METHOD_LABELS[order.shippingMethod as ShippingMethod]}${
+        order.shippingAddress ? `: ${escapeHtml(order.shippingAddress)}` : ""}</p>` : ""}
+      ${order.trackingCode ? `
+      <p>Código de seguimiento del correo: <strong>${escapeHtml(order.trackingCode)}</strong></p>` : ""}
+      ${trackingUrl ? button(trackingUrl, "Seguir mi pedido") : `
+      <p>Podés seguir el estado del pedido en "Mis Pedidos".</p>`}
+    `,
+    }),
+  },
+
+  delivered: {
+    version: 1,
+    render: ({ order, shopUrl }) => ({
+      subject: `Tu pedido ${formatOrderNumber(order.number)} fue entregado`,
+      html: `
+      <h2>¡Tu pedido llegó!</h2>
+      <p>Hola ${escapeHtml(order.customerName)},</p>
+      <p>Registramos la entrega de tu pedido ${formatOrderNumber(order.number)}. Esperamos que lo disfruten.</p>
+      <p>Si algo no llegó como esperabas, respondé este email y lo resolvemos.</p>
+      ${button(`${shopUrl}/products`, "Seguir comprando")}
+    `,
+    }),
+  },
+
+  password_reset: {
+    version: 1,
+    render: ({ name, token }) => ({
+      subject: "Recuperación de Contraseña",
+      html: `
+      <h2>Recuperación de Contraseña</h2>
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Pediste recuperar tu contraseña. Usá el siguiente token para crear una nueva:</p>
+      <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 15px 0;">
+        <strong style="font-size: 18px; letter-spacing: 2px;">${escapeHtml(token)}</strong>
+      </div>
+      <p>El token vence en 1 hora.</p>
+      <p>Si no lo pediste, podés ignorar este email.</p>
+    `,
+    }),
+  },
+
+  cart_reminder: {
+    version: 1,
+    render: ({ name, items, couponCode, restoreUrl }) => ({
+      subject: "Dejaste productos en tu carrito",
+      html: `
+      <h2>¡Tu carrito te está esperando!</h2>
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Guardamos los productos que elegiste:</p>
+      <ul>${items.map((item) => `
+        <li style="margin-bottom: 10px;">
+          ${escapeHtml(item.name)} × ${item.quantity} — ${formatPrice(item.price)}
+        </li>`).join("")}
+      </ul>
+      ${couponCode ? `
+      <p>Y para ayudarte a decidir, usá el cupón <strong>${escapeHtml(couponCode)}</strong> al finalizar tu compra.</p>` : ""}
+      ${button(restoreUrl, "Volver a mi carrito")}
+      <p>Los precios y el stock se confirman al finalizar la compra.</p>
+    `,
+    }),
+  },
+
+  order_claim: {
+    version: 1,
+    render: ({ name, email, claimUrl }) => ({
+      subject: "Vinculá tus pedidos a tu cuenta",
+      html: `
+      <h2>Vinculá tus pedidos</h2>
+      <p>Hola ${escapeHtml(name)},</p>
+      <p>Para sumar a tu cuenta los pedidos que hiciste sin registrarte con ${escapeHtml(email)}, abrí este enlace con tu sesión iniciada:</p>
+      ${button(claimUrl, "Vincular mis pedidos")}
+      <p>El enlace vence en 24 horas. Si no lo pediste, podés ignorar este email.</p>
+    `,
+    }),
+  },
+
+  owner_new_order: {
+    version: 1,
+    render: ({ order, adminUrl }) => ({
+      subject: `Nuevo pedido ${formatOrderNumber(order.number)} — ${formatPrice(order.total)}`,
+      html: `
+      <h2>Nuevo pedido ${formatOrderNumber(order.number)}</h2>
+      <p>${escapeHtml(order.customerName)} (${escapeHtml(order.customerEmail)}, ${escapeHtml(order.customerPhone)})${
+        order.payment ? ` eligió pagar con ${getPaymentMethod(order.payment.method as PaymentMethodId).label}` : ""}.</p>
+      ${orderSummary(order)}
+      ${order.shippingMethod ? `
+      <p>${SHIPPING_METHOD_LABELS[order.shippingMethod as ShippingMethod]}${
+        order.shippingAddress ? `: ${escapeHtml(order.shippingAddress)}` : ""}</p>` : ""}
+      ${button(adminUrl, "Ver pedidos")}
+    `,
+    }),
+  },
+
+  owner_low_stock: {
+    version: 1,
+    render: ({ productName, stock, threshold, adminUrl }) => ({
+      subject: stock === 0 ? `Sin stock: ${productName}` : `Stock bajo: ${productName}`,
+      html: `
+      <h2>${stock === 0 ? "Producto sin stock" : "Stock bajo"}</h2>
+      <p>
+        ${stock === 0
+          ? `<strong>${escapeHtml(productName)}</strong> se quedó sin stock y ya no se puede comprar.`
+          : `Quedan ${stock} unidades de <strong>${escapeHtml(productName)}</strong> (el aviso está configurado en ${threshold} o menos).`}
+      </p>
+      ${button(adminUrl, "Actualizar stock")}
+    `,
+    }),
+  },
+};
+
+export function renderEmail<Name extends EmailTemplateName>(
+  name: Name,
+  data: EmailTemplateData[Name],
+): RenderedEmail & { version: number } {
+  const template: EmailTemplate<EmailTemplateData[Name]> = templates[name];
+  return { version: template.version, ...template.render(data) };
+}
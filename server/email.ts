@@ -0,0 +1,158 @@
+import nodemailer from "nodemailer";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import type { EmailOutboxEntry, EmailTemplateName } from "@shared/schema";
+import { renderEmail, type EmailTemplateData } from "./email-templates";
+import { storage } from "./storage";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+// Hands one message over for delivery; throws when that fails
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const EMAIL_OUTBOX_CHECK_INTERVAL_MS = 30 * 1000;
+// Wait before each retry; an email still failing after the last one is
+// marked failed. Six attempts spread over about eight and a half hours.
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 360].map((minutes) => minutes * 60 * 1000);
+// How long a claimed email is kept from other workers while it is sent
+const DELIVERY_LEASE_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+let transportOverride: EmailTransport | null = null;
+
+// Replaces SMTP for every delivery until set back to null (for tests)
+export function setEmailTransport(transport: EmailTransport | null): void {
+  transportOverride = transport;
+}
+
+function smtpTransport(options: string | SMTPTransport.Options): EmailTransport {
+  const transporter = nodemailer.createTransport(options);
+  return {
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+// SMTP_URL (e.g. smtp://localhost:2525 for npm run smtp:fake) takes over
+// from the SMTP settings in admin config. Null when neither is set.
+async function getTransport(): Promise<{ transport: EmailTransport; from: string } | null> {
+  const config = await storage.getAdminConfig();
+  const from = config?.smtpEmail || "no-reply@localhost";
+
+  if (transportOverride) {
+    return { transport: transportOverride, from };
+  }
+  if (process.env.SMTP_URL) {
+    return { transport: smtpTransport(process.env.SMTP_URL), from };
+  }
+  if (!config?.smtpEmail || !config.smtpPassword || !config.smtpHost || !config.smtpPort) {
+    return null;
+  }
+
+  const port = parseInt(config.smtpPort, 10);
+  return {
+    transport: smtpTransport({
+      host: config.smtpHost,
+      port,
+      secure: port === 465,
+      auth: {
+        user: config.smtpEmail,
+        pass: config.smtpPassword,
+      },
+    }),
+    from,
+  };
+}
+
+export async function isEmailConfigured(): Promise<boolean> {
+  return (await getTransport()) !== null;
+}
+
+// Renders the template and queues the email; delivery happens in the
+// background. Without SMTP settings emails stay queued until they are added.
+// With a dedupeKey the email is queued at most once: undefined means it
+// already was.
+export async function queueEmail<Name extends EmailTemplateName>(
+  to: string,
+  template: Name,
+  data: EmailTemplateData[Name],
+  dedupeKey?: string,
+): Promise<EmailOutboxEntry | undefined> {
+  const { version, subject, html } = renderEmail(template, data);
+  const queued = await storage.queueEmail({ template, templateVersion: version, to, subject, html, dedupeKey });
+  if (queued) {
+    runOutbox();
+  }
+  return queued;
+}
+
+// Sends every due email once. Returns how many went out.
+export async function deliverDueEmails(now = new Date()): Promise<number> {
+  const configured = await getTransport();
+  if (!configured) return 0;
+
+  let sent = 0;
+  for (;;) {
+    const due = await storage.claimDueEmails(now, new Date(now.getTime() + DELIVERY_LEASE_MS), BATCH_SIZE);
+    for (const email of due) {
+      if (await deliver(email, configured.transport, configured.from)) {
+        sent++;
+      }
+    }
+    // Failed emails were moved to a later attempt, so this ends
+    if (due.length < BATCH_SIZE) return sent;
+  }
+}
+
+async function deliver(email: EmailOutboxEntry, transport: EmailTransport, from: string): Promise<boolean> {
+  try {
+    await transport.send({ from, to: email.to, subject: email.subject, html: email.html });
+    await storage.markEmailSent(email.id);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const delay = RETRY_DELAYS_MS[email.attempts - 1];
+    await storage.markEmailAttemptFailed(email.id, message, delay === undefined ? null : new Date(Date.now() + delay));
+    console.error(
+      `Email "${email.subject}" to ${email.to} failed on attempt ${email.attempts}` +
+      `${delay === undefined ? ", giving up" : ""}: ${message}`,
+    );
+    return false;
+  }
+}
+
+let running = false;
+let runAgain = false;
+
+// Starts a delivery run unless one is under way; emails queued meanwhile
+// get a run of their own right after it
+function runOutbox(): void {
+  if (running) {
+    runAgain = true;
+    return;
+  }
+  running = true;
+  deliverDueEmails()
+    .catch((error) => console.error("Email outbox run failed:", error))
+    .finally(() => {
+      running = false;
+      if (runAgain) {
+        runAgain = false;
+        runOutbox();
+      }
+    });
+}
+
+// Picks up retries, and whatever was queued before a restart, for the life
+// of the process
+export function startEmailOutboxJob(): void {
+  runOutbox();
+  setInterval(runOutbox, EMAIL_OUTBOX_CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,64 @@
+import type { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = "No autorizado") {
+    super(401, message);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = "Acceso denegado") {
+    super(403, message);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Recurso no encontrado") {
+    super(404, message);
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message = "Datos inválidos", details?: unknown) {
+    super(400, message, details);
+  }
+}
+
+// Parses with a zod schema, turning failures into a ValidationError that
+// carries the route-specific message.
+export function parseWith<T extends z.ZodTypeAny>(schema: T, data: unknown, message?: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ValidationError(message, result.error.errors);
+  }
+  return result.data;
+}
+
+export function errorHandler(err: any, req: Request, res: Response, _next: NextFunction) {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json(
+      err.details === undefined ? { message: err.message } : { message: err.message, errors: err.details },
+    );
+  }
+
+  if (err instanceof z.ZodError) {
+    return res.status(400).json({ message: "Datos inválidos", errors: err.errors });
+  }
+
+  // body-parser and friends set status on their own errors (e.g. malformed JSON)
+  const status = err.status || err.statusCode || 500;
+  if (status >= 500) {
+    console.error(`Unhandled error on ${req.method} ${req.path}:`, err);
+    return res.status(status).json({ message: "Error interno del servidor" });
+  }
+
+  res.status(status).json({ message: err.message || "Solicitud inválida" });
+}
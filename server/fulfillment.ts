@@ -0,0 +1,39 @@
+import { getOrderDownloads, issueDownloadLinks } from "./downloads";
+import { assignOrderLicenseKeys } from "./license-keys";
+import { notifyPaymentApproved } from "./notifications";
+import { storage } from "./storage";
+
+// Runs once an order's payment is approved, tells the buyer and delivers what
+// does not need shipping: download links and license keys. Safe to call
+// repeatedly (e.g. on webhook redeliveries): only deliveries that did not
+// happen yet are made, and the approval is announced once.
+export async function fulfillOrder(orderId: string, baseUrl: string): Promise<void> {
+  const order = await storage.getOrder(orderId);
+  if (!order || order.payment?.status !== "approved" || ["cancelled", "refunded"].includes(order.status)) {
+    return;
+  }
+
+  const issued = await issueDownloadLinks(order);
+  const keys = await assignOrderLicenseKeys(order);
+
+  // Everything delivered is also listed in the buyer's profile, so a failed
+  // email does not undo the delivery
+  try {
+    const downloads = (issued.length > 0 ? await getOrderDownloads(order.id, baseUrl) : [])
+      .filter((download) => download.url);
+    await notifyPaymentApproved(order, downloads, keys);
+  } catch (error) {
+    console.error(`Could not email the delivery of order ${order.id}:`, error);
+  }
+}
+
+// Hands freshly imported keys to paid orders that were left waiting when the
+// pool ran out. Returns how many orders were fulfilled.
+export async function fulfillWaitingOrders(productId: string, baseUrl: string): Promise<number> {
+  const shortfalls = await storage.getLicenseKeyShortfalls(productId);
+  const orderIds = Array.from(new Set(shortfalls.map((shortfall) => shortfall.orderId)));
+  for (const orderId of orderIds) {
+    await fulfillOrder(orderId, baseUrl);
+  }
+  return orderIds.length;
+}
@@ -1,6 +1,13 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
+import { errorHandler } from "./errors";
 import { setupVite, serveStatic, log } from "./vite";
+import { startCartReminderJob } from "./cart-reminders";
+import { startEmailOutboxJob } from "./email";
+import { startUnpaidOrderJob } from "./unpaid-orders";
+import { checkDatabaseConnection, getDatabaseConfig } from "./db";
+import { runMigrations } from "./migrate";
+import { storage } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -37,15 +44,23 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  try {
+    // Lists every invalid DATABASE_* variable before anything connects
+    getDatabaseConfig();
+    await checkDatabaseConnection();
+    // Deploys that run npm run db:migrate as a separate step can turn this off
+    if (process.env.MIGRATE_ON_START !== "false") {
+      await runMigrations();
+    }
+    await storage.encryptAdminSecrets();
+  } catch (error) {
+    console.error(`Startup failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+  const server = await registerRoutes(app);
 
-    res.status(status).json({ message });
-    throw err;
-  });
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -68,4 +83,9 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Links in reminder emails need the public origin; there is no request here
+  startCartReminderJob((process.env.APP_BASE_URL || `http://localhost:${port}`).replace(/\/$/, ""));
+  startEmailOutboxJob();
+  startUnpaidOrderJob();
 })();
\ No newline at end of file
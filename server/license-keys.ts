@@ -0,0 +1,51 @@
+import type { LicenseKey, LicenseKeyPool, OrderWithItems } from "@shared/schema";
+import { storage } from "./storage";
+
+// The dashboard warns when a product has this many free keys or fewer
+export const LOW_LICENSE_KEY_POOL = 5;
+export const MAX_LICENSE_KEYS_CSV_BYTES = 2 * 1024 * 1024;
+
+const HEADER = /^(key|license|licencia|clave|code|c[oó]digo)$/i;
+
+// Accepts a plain list (one key per line) or a CSV export whose first column
+// holds the key. A header row, blank lines and repeated keys are dropped.
+export function parseLicenseKeysCsv(csv: string): string[] {
+  const keys = new Set<string>();
+  for (const line of csv.split(/\r?\n/)) {
+    const key = line.split(/[,;\t]/)[0].trim().replace(/^"(.*)"$/, "$1").trim();
+    if (key && !HEADER.test(key)) {
+      keys.add(key);
+    }
+  }
+  return Array.from(keys);
+}
+
+// Assigns keys to every license key line of a paid order. Returns the keys
+// assigned now; lines may stay short when the pool runs out.
+export async function assignOrderLicenseKeys(order: OrderWithItems): Promise<LicenseKey[]> {
+  const assigned: LicenseKey[] = [];
+  for (const item of order.items) {
+    if (item.product.usesLicenseKeys) {
+      assigned.push(...await storage.assignLicenseKeys(item.id));
+    }
+  }
+  return assigned;
+}
+
+export async function getLicenseKeyPools(): Promise<LicenseKeyPool[]> {
+  const [counts, shortfalls] = await Promise.all([
+    storage.getLicenseKeyCounts(),
+    storage.getLicenseKeyShortfalls(),
+  ]);
+
+  return counts.map((count) => {
+    const waiting = shortfalls
+      .filter((shortfall) => shortfall.productId === count.productId)
+      .reduce((sum, shortfall) => sum + shortfall.missing, 0);
+    return {
+      ...count,
+      waiting,
+      low: waiting > 0 || count.available <= LOW_LICENSE_KEY_POOL,
+    };
+  });
+}
@@ -0,0 +1,208 @@
+// Minimal local stand-in for the MercadoPago API, for development and tests.
+//
+//   npm run mp:fake                      # listens on MP_FAKE_PORT (default 5055)
+//   MERCADOPAGO_API_URL=http://localhost:5055 npm run dev
+//
+// Any access token is accepted. Opening a preference's init_point simulates
+// the buyer finishing checkout: a payment is created, a webhook is sent to
+// the preference's notification_url (signed with MP_FAKE_WEBHOOK_SECRET when
+// set) and the browser is redirected to the matching back_url. Pass
+// ?status=rejected or ?status=pending to simulate other outcomes. Refunds
+// (POST /v1/payments/:id/refunds) are tracked per payment; a full refund
+// flips the payment to "refunded" and sends another webhook.
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import crypto from "crypto";
+
+interface FakePreference {
+  id: string;
+  items: Array<{ title: string; quantity: number; unit_price: number }>;
+  back_urls: { success: string; failure: string; pending: string };
+  external_reference: string;
+  notification_url?: string;
+}
+
+interface FakePayment {
+  id: number;
+  status: string;
+  status_detail: string;
+  external_reference: string;
+  transaction_amount: number;
+  currency_id: string;
+  date_created: string;
+  refunds: FakeRefund[];
+  notification_url?: string;
+}
+
+interface FakeRefund {
+  id: number;
+  payment_id: number;
+  amount: number;
+  status: string;
+}
+
+const preferences = new Map<string, FakePreference>();
+const payments = new Map<string, FakePayment>();
+const refundsByIdempotencyKey = new Map<string, FakeRefund>();
+let nextPaymentId = 1000001;
+let nextRefundId = 2000001;
+
+async function sendWebhook(notificationUrl: string, paymentId: number) {
+  const requestId = crypto.randomUUID();
+  const headers: Record<string, string> = { "Content-Type": "application/json", "x-request-id": requestId };
+
+  const secret = process.env.MP_FAKE_WEBHOOK_SECRET;
+  if (secret) {
+    const ts = Math.floor(Date.now() / 1000).toString();
+    const v1 = crypto
+      .createHmac("sha256", secret)
+      .update(`id:${paymentId};request-id:${requestId};ts:${ts};`)
+      .digest("hex");
+    headers["x-signature"] = `ts=${ts},v1=${v1}`;
+  }
+
+  const url = new URL(notificationUrl);
+  url.searchParams.set("type", "payment");
+  url.searchParams.set("data.id", String(paymentId));
+  try {
+    await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ action: "payment.created", type: "payment", data: { id: String(paymentId) } }),
+    });
+  } catch (error) {
+    console.error("Fake MercadoPago could not deliver webhook:", error);
+  }
+}
+
+function readJson(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function createFakeMercadoPagoServer(publicUrl: string) {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || "/", publicUrl);
+
+    try {
+      if (req.method === "POST" && url.pathname === "/checkout/preferences") {
+        if (!req.headers.authorization?.startsWith("Bearer ")) {
+          return sendJson(res, 401, { message: "invalid access token" });
+        }
+        const body = await readJson(req);
+        const id = `fake-pref-${crypto.randomUUID()}`;
+        preferences.set(id, { id, ...body });
+        const initPoint = `${publicUrl}/checkout/v1/redirect?pref_id=${id}`;
+        return sendJson(res, 201, { id, init_point: initPoint, sandbox_init_point: initPoint, ...body });
+      }
+
+      if (req.method === "GET" && url.pathname === "/checkout/v1/redirect") {
+        const preference = preferences.get(url.searchParams.get("pref_id") || "");
+        if (!preference) {
+          return sendJson(res, 404, { message: "preference not found" });
+        }
+
+        const status = url.searchParams.get("status") || "approved";
+        const payment: FakePayment = {
+          id: nextPaymentId++,
+          status,
+          status_detail: status === "approved" ? "accredited" : status === "rejected" ? "cc_rejected_other_reason" : "pending_contingency",
+          external_reference: preference.external_reference,
+          transaction_amount: preference.items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0),
+          currency_id: "ARS",
+          date_created: new Date().toISOString(),
+          refunds: [],
+          notification_url: preference.notification_url,
+        };
+        payments.set(String(payment.id), payment);
+        if (preference.notification_url) {
+          await sendWebhook(preference.notification_url, payment.id);
+        }
+
+        const target = new URL(
+          status === "approved" ? preference.back_urls.success
+            : status === "pending" ? preference.back_urls.pending
+            : preference.back_urls.failure,
+        );
+        target.searchParams.set("collection_status", status);
+        target.searchParams.set("external_reference", preference.external_reference);
+        target.searchParams.set("preference_id", preference.id);
+        target.searchParams.set("payment_id", String(payment.id));
+        res.writeHead(302, { Location: target.toString() });
+        return res.end();
+      }
+
+      const refundMatch = url.pathname.match(/^\/v1\/payments\/([^/]+)\/refunds$/);
+      if (req.method === "POST" && refundMatch) {
+        if (!req.headers.authorization?.startsWith("Bearer ")) {
+          return sendJson(res, 401, { message: "invalid access token" });
+        }
+        const idempotencyKey = req.headers["x-idempotency-key"];
+        const previous = typeof idempotencyKey === "string" ? refundsByIdempotencyKey.get(idempotencyKey) : undefined;
+        if (previous) {
+          return sendJson(res, 201, previous);
+        }
+
+        const payment = payments.get(refundMatch[1]);
+        if (!payment) {
+          return sendJson(res, 404, { message: "payment not found" });
+        }
+        if (payment.status !== "approved") {
+          return sendJson(res, 400, { message: `cannot refund a payment in status ${payment.status}` });
+        }
+
+        const body = await readJson(req);
+        const refunded = payment.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+        const remaining = Math.round((payment.transaction_amount - refunded) * 100) / 100;
+        const amount = body.amount ?? remaining;
+        if (amount <= 0 || amount > remaining) {
+          return sendJson(res, 400, { message: "invalid refund amount" });
+        }
+
+        const refund: FakeRefund = { id: nextRefundId++, payment_id: payment.id, amount, status: "approved" };
+        payment.refunds.push(refund);
+        if (typeof idempotencyKey === "string") {
+          refundsByIdempotencyKey.set(idempotencyKey, refund);
+        }
+        if (amount === remaining) {
+          payment.status = "refunded";
+          payment.status_detail = "refunded";
+          if (payment.notification_url) {
+            await sendWebhook(payment.notification_url, payment.id);
+          }
+        }
+        return sendJson(res, 201, refund);
+      }
+
+      const paymentMatch = url.pathname.match(/^\/v1\/payments\/([^/]+)$/);
+      if (req.method === "GET" && paymentMatch) {
+        const payment = payments.get(paymentMatch[1]);
+        return payment ? sendJson(res, 200, payment) : sendJson(res, 404, { message: "payment not found" });
+      }
+
+      sendJson(res, 404, { message: "not found" });
+    } catch (error) {
+      sendJson(res, 400, { message: error instanceof Error ? error.message : "bad request" });
+    }
+  });
+}
+
+if (process.argv[1]?.endsWith("mercadopago-fake.ts")) {
+  const port = parseInt(process.env.MP_FAKE_PORT || "5055", 10);
+  createFakeMercadoPagoServer(`http://localhost:${port}`).listen(port, () => {
+    console.log(`Fake MercadoPago API listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,346 @@
+import crypto from "crypto";
+import { canTransitionOrder, formatOrderNumber, type Order, type OrderStatus, type OrderWithItems, type PaymentStatus } from "@shared/schema";
+import { HttpError } from "./errors";
+import { fromCents, toCents } from "./money";
+import { recordProviderRefund, refundRemaining } from "./refunds";
+import { storage } from "./storage";
+
+// Point MERCADOPAGO_API_URL at a local stand-in (see mercadopago-fake.ts)
+// to exercise the payment flow without real credentials.
+export function getMercadoPagoApiUrl(): string {
+  return (process.env.MERCADOPAGO_API_URL || "https://api.mercadopago.com").replace(/\/$/, "");
+}
+
+// Preferences are priced, and payments must be made, in Argentine pesos
+const CURRENCY = "ARS";
+
+export class MercadoPagoError extends HttpError {
+  // providerStatus is the HTTP status MercadoPago answered with, if it answered
+  constructor(message: string, details?: unknown, public providerStatus?: number) {
+    super(502, message, details);
+  }
+
+  // MercadoPago turned the request down, so it certainly did not take effect.
+  // After a timeout, a server error or a conflict it may have.
+  get rejected(): boolean {
+    return this.providerStatus !== undefined && this.providerStatus >= 400 && this.providerStatus < 500
+      && this.providerStatus !== 409;
+  }
+}
+
+export interface CheckoutPreference {
+  id: string;
+  init_point: string;
+  sandbox_init_point?: string;
+}
+
+export interface MercadoPagoPayment {
+  id: number | string;
+  status: string; // "pending" | "approved" | "authorized" | "in_process" | "in_mediation" | "rejected" | "cancelled" | "refunded" | "charged_back"
+  status_detail?: string;
+  external_reference?: string | null;
+  transaction_amount?: number;
+  currency_id?: string;
+}
+
+async function mercadoPagoRequest<T>(
+  accessToken: string,
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${getMercadoPagoApiUrl()}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    // No answer: whether the request took effect is unknown
+    console.error(`MercadoPago ${method} ${path} failed:`, error);
+    throw new MercadoPagoError("Error al comunicarse con MercadoPago");
+  }
+
+  const text = await res.text();
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // Leave data null; the status check below reports the failure
+  }
+
+  if (!res.ok) {
+    console.error(`MercadoPago ${method} ${path} failed with ${res.status}:`, text);
+    throw new MercadoPagoError("Error al comunicarse con MercadoPago", data?.message, res.status);
+  }
+  return data as T;
+}
+
+export interface MercadoPagoRefund {
+  id: number | string;
+  payment_id: number | string;
+  amount: number;
+  status: string;
+}
+
+// Lines carry their share of a coupon discount so the preference, with the
+// shipping added as one more item, adds up to the order total. When the
+// discount does not split evenly over the units, the line is sent as a
+// single item priced at its discounted total.
+function preferenceItem(item: OrderWithItems["items"][number]) {
+  const lineCents = toCents(item.price) * item.quantity - toCents(item.discount);
+  const even = lineCents % item.quantity === 0;
+  return {
+    id: item.productId,
+    title: even ? item.product.name : `${item.product.name} (x${item.quantity})`,
+    picture_url: item.product.imageUrl,
+    quantity: even ? item.quantity : 1,
+    unit_price: parseFloat(fromCents(even ? lineCents / item.quantity : lineCents)),
+    currency_id: CURRENCY,
+  };
+}
+
+export async function createCheckoutPreference(
+  accessToken: string,
+  order: OrderWithItems,
+  baseUrl: string,
+): Promise<CheckoutPreference> {
+  return mercadoPagoRequest<CheckoutPreference>(accessToken, "POST", "/checkout/preferences", {
+    items: [
+      ...order.items.map(preferenceItem),
+      ...(toCents(order.shippingCost) > 0
+        ? [{ id: "shipping", title: "Envío", quantity: 1, unit_price: parseFloat(order.shippingCost), currency_id: CURRENCY }]
+        : []),
+    ],
+    payer: {
+      name: order.customerName,
+      email: order.customerEmail,
+      phone: { number: order.customerPhone },
+    },
+    back_urls: {
+      success: `${baseUrl}/checkout/success`,
+      failure: `${baseUrl}/checkout/failure`,
+      pending: `${baseUrl}/checkout/pending`,
+    },
+    auto_return: "approved",
+    // The webhook resolves orders by id. Metadata is copied onto the
+    // resulting payment, so it also carries the number buyers quote.
+    external_reference: order.id,
+    metadata: { order_number: formatOrderNumber(order.number) },
+    notification_url: `${baseUrl}/api/mercadopago/webhook`,
+  });
+}
+
+export async function getPayment(accessToken: string, paymentId: string): Promise<MercadoPagoPayment> {
+  return mercadoPagoRequest<MercadoPagoPayment>(accessToken, "GET", `/v1/payments/${encodeURIComponent(paymentId)}`);
+}
+
+// Partial or full refund of an approved payment. Retrying with the same
+// idempotency key returns the original refund instead of refunding twice.
+export async function refundPayment(
+  accessToken: string,
+  paymentId: string,
+  amount: number,
+  idempotencyKey: string,
+): Promise<MercadoPagoRefund> {
+  return mercadoPagoRequest<MercadoPagoRefund>(
+    accessToken,
+    "POST",
+    `/v1/payments/${encodeURIComponent(paymentId)}/refunds`,
+    { amount },
+    { "X-Idempotency-Key": idempotencyKey },
+  );
+}
+
+// Validates the x-signature header MercadoPago attaches to webhooks:
+// "ts=<unix>,v1=<hex hmac>" over "id:<data.id>;request-id:<x-request-id>;ts:<ts>;".
+export function verifyWebhookSignature(
+  secret: string,
+  signatureHeader: string | undefined,
+  requestId: string | undefined,
+  dataId: string,
+): boolean {
+  if (!signatureHeader) return false;
+
+  const parts = Object.fromEntries(
+    signatureHeader.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")];
+    }),
+  );
+  if (!parts.ts || !parts.v1) return false;
+
+  // MercadoPago lowercases alphanumeric ids when signing
+  const id = /^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId;
+  let manifest = `id:${id};`;
+  if (requestId) manifest += `request-id:${requestId};`;
+  manifest += `ts:${parts.ts};`;
+
+  const expected = crypto.createHmac("sha256", secret).update(manifest).digest("hex");
+  const a = Buffer.from(expected);
+  const b = Buffer.from(parts.v1);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Order status implied by a payment status, given the order's current status.
+// Returns null when the order should be left alone (payment still in flight,
+// or the order already moved past the point this payment status applies to).
+export function orderStatusForPayment(paymentStatus: string, currentStatus: string): OrderStatus | null {
+  switch (paymentStatus) {
+    case "approved":
+      return currentStatus === "pending" ? "confirmed" : null;
+    case "rejected":
+      // Checkout Pro lets the buyer retry with another card, so a rejection
+      // keeps the order pending; the payment row records the rejection.
+      return null;
+    case "cancelled":
+      return currentStatus === "pending" ? "cancelled" : null;
+    case "refunded":
+    case "charged_back":
+      return canTransitionOrder(currentStatus, "refunded") ? "refunded" : null;
+    default:
+      return null;
+  }
+}
+
+// Our payment status for a MercadoPago payment status
+export function paymentStatusFor(providerStatus: string): PaymentStatus {
+  switch (providerStatus) {
+    case "approved":
+    case "rejected":
+    case "cancelled":
+    case "refunded":
+      return providerStatus;
+    case "charged_back":
+      return "refunded";
+    default:
+      return "pending";
+  }
+}
+
+// Payment statuses a MercadoPago status may replace. Approved and refunded
+// payments only move on to a refund.
+function paymentFromStatuses(providerStatus: string): string[] {
+  switch (paymentStatusFor(providerStatus)) {
+    case "approved":
+      // "cancelled": the order was cancelled here before the money came in
+      return ["pending", "rejected", "cancelled"];
+    case "refunded":
+      return ["approved", "refunded"];
+    default:
+      return ["pending", "rejected"];
+  }
+}
+
+export type ReconcileResult =
+  | { outcome: "duplicate"; order: Order }
+  | { outcome: "updated"; order: Order }
+  | { outcome: "ignored"; reason: string };
+
+// Fetches the payment from MercadoPago (the notification body itself is
+// never trusted) and applies its status to the referenced order.
+export async function reconcilePayment(accessToken: string, paymentId: string): Promise<ReconcileResult> {
+  const payment = await getPayment(accessToken, paymentId);
+  const orderId = payment.external_reference;
+  if (!orderId) {
+    return { outcome: "ignored", reason: "payment has no external_reference" };
+  }
+
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    return { outcome: "ignored", reason: `order ${orderId} not found` };
+  }
+
+  if (order.payment?.method !== "mercadopago") {
+    return { outcome: "ignored", reason: `order ${orderId} is not paid with MercadoPago` };
+  }
+
+  // A payment that does not cover the order (e.g. made against a tampered
+  // preference) is left for the shop to look into; the order stays pending
+  const paidCents = payment.transaction_amount === undefined ? null : Math.round(payment.transaction_amount * 100);
+  if (paidCents !== toCents(order.payment.amount) || payment.currency_id !== CURRENCY) {
+    return {
+      outcome: "ignored",
+      reason: `payment is for ${payment.currency_id} ${payment.transaction_amount} but order ${orderId} expects ${CURRENCY} ${order.payment.amount}`,
+    };
+  }
+
+  const event = await storage.recordPaymentEvent({
+    orderId: order.id,
+    provider: "mercadopago",
+    providerPaymentId: String(payment.id),
+    status: payment.status,
+    payload: payment,
+  });
+  if (!event) {
+    return { outcome: "duplicate", order };
+  }
+
+  // A late notification (still pending, or an earlier rejected attempt) must
+  // not take back a collected payment, nor swap in another payment's id
+  const fromStatuses = paymentFromStatuses(payment.status);
+  const paidWith = order.payment.providerPaymentId;
+  const collected = order.payment.status === "approved" || order.payment.status === "refunded";
+  if (!fromStatuses.includes(order.payment.status) || (collected && paidWith !== String(payment.id))) {
+    return {
+      outcome: "ignored",
+      reason: `payment ${payment.id} ${payment.status} does not apply to order ${orderId}: its payment is ${order.payment.status}${paidWith ? ` (${paidWith})` : ""}`,
+    };
+  }
+
+  // The event marks this payment state as handled, so it only stays when
+  // the order was updated; otherwise a redelivery gets to try again
+  const note = `MercadoPago: pago ${payment.id} ${payment.status}`;
+  const status = orderStatusForPayment(payment.status, order.status);
+  try {
+    const updated = await storage.updatePayment(order.payment.id, {
+      providerPaymentId: String(payment.id),
+      providerStatus: payment.status,
+      status: paymentStatusFor(payment.status),
+    }, {
+      fromStatuses,
+      orderStatus: status === "confirmed" ? status : undefined,
+      statusChange: { note },
+    });
+    if (!updated) {
+      // Settled by another notification or an admin in the meantime
+      return { outcome: "ignored", reason: `payment of order ${orderId} changed while applying payment ${payment.id}` };
+    }
+
+    // Cancelling and refunding also move stock and money, as they do when
+    // done from the shop
+    if (status === "cancelled") {
+      await storage.cancelOrder(order.id, { note });
+    } else if (status === "refunded") {
+      await recordProviderRefund(order.id, { note });
+    }
+  } catch (error) {
+    await storage.deletePaymentEvent(event.id);
+    throw error;
+  }
+
+  // Paid after the order was cancelled here: the money goes back as for any
+  // cancelled order, or the order waits for an admin to refund it
+  if (payment.status === "approved" && order.status === "cancelled") {
+    try {
+      await refundRemaining(order.id, { note: "Reembolso de un pago acreditado en una orden cancelada" });
+    } catch (error) {
+      console.error(`Automatic refund of payment ${payment.id} for cancelled order ${order.id} failed:`, error);
+    }
+  }
+
+  return { outcome: "updated", order: { ...order, status: status ?? order.status } };
+}
+
+// Test credentials only work against the sandbox checkout.
+export function checkoutUrl(accessToken: string, preference: CheckoutPreference): string {
+  return accessToken.startsWith("TEST-") && preference.sandbox_init_point
+    ? preference.sandbox_init_point
+    : preference.init_point;
+}
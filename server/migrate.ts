@@ -0,0 +1,172 @@
+// Brings the database schema and data up to date.
+//
+//   npm run db:generate    # writes a migration for changes to shared/schema.ts
+//   npm run db:migrate     # applies pending migrations (also done at startup)
+//
+// SQL migrations live in migrations/ and are applied by drizzle, which
+// records them in drizzle.__drizzle_migrations. Data migrations that need
+// application code follow (see data-migrations.ts). An advisory lock keeps
+// concurrently starting servers from migrating at the same time.
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { migrate as migrateNeon } from "drizzle-orm/neon-serverless/migrator";
+import { migrate as migrateNodePg } from "drizzle-orm/node-postgres/migrator";
+import { dataMigrations } from "@shared/schema";
+import { DATA_MIGRATIONS } from "./data-migrations";
+import { db, getDatabaseConfig, pool } from "./db";
+
+// Relative to the working directory, which is the project root for both
+// npm run dev and npm start
+const MIGRATIONS_DIR = path.resolve("migrations");
+const MIGRATION_LOCK_ID = 72_450_025;
+
+async function withMigrationLock<T>(run: () => Promise<T>): Promise<T> {
+  // Advisory locks belong to a session, so one connection is held throughout
+  const client = await pool.connect();
+  try {
+    await client.query("select pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    try {
+      return await run();
+    } finally {
+      await client.query("select pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+interface Journal {
+  entries: { idx: number; tag: string }[];
+}
+
+interface Snapshot {
+  tables: Record<string, { name: string; columns: Record<string, unknown> }>;
+}
+
+function readJson<T>(...segments: string[]): T {
+  return JSON.parse(fs.readFileSync(path.join(MIGRATIONS_DIR, ...segments), "utf8"));
+}
+
+// The tables and columns the database has after this migration, as
+// "table.column"
+function schemaColumns(idx: number): Set<string> {
+  const snapshot = readJson<Snapshot>("meta", `${String(idx).padStart(4, "0")}_snapshot.json`);
+  return new Set(Object.values(snapshot.tables).flatMap((table) =>
+    Object.keys(table.columns).map((column) => `${table.name}.${column}`),
+  ));
+}
+
+function listColumns(columns: string[]): string {
+  return `${columns.slice(0, 10).join(", ")}${columns.length > 10 ? `, and ${columns.length - 10} more` : ""}`;
+}
+
+// Databases created with drizzle-kit push, before migrations were checked
+// in, are recorded at the newest migration whose schema they hold and are
+// migrated from there. That is the baseline (migrations/0000_baseline.sql,
+// the schema of the first release) unless they were pushed from a later
+// one. A database holding only part of a migration cannot be placed: that
+// migration would fail on what exists, or never add what is missing.
+async function baselinePushedDatabase(): Promise<void> {
+  await db.execute(sql`create schema if not exists drizzle`);
+  await db.execute(sql`
+    create table if not exists drizzle.__drizzle_migrations (
+      id serial primary key,
+      hash text not null,
+      created_at bigint
+    )
+  `);
+
+  const recorded = await db.execute(sql`select 1 from drizzle.__drizzle_migrations limit 1`);
+  if (recorded.rows.length > 0) return;
+  const existing = await db.execute<{ users: string | null }>(sql`select to_regclass('public.users')::text as users`);
+  if (!existing.rows[0]?.users) return;
+
+  const present = await db.execute<{ name: string }>(sql`
+    select table_name || '.' || column_name as name
+    from information_schema.columns
+    where table_schema = 'public'
+  `);
+  const presentColumns = new Set(present.rows.map((row) => row.name));
+  const { entries } = readJson<Journal>("meta", "_journal.json");
+
+  const missing = Array.from(schemaColumns(0)).filter((column) => !presentColumns.has(column));
+  if (missing.length > 0) {
+    throw new Error(
+      `The database predates migrations and lacks part of the baseline schema (${listColumns(missing)}). ` +
+        "Check that DATABASE_URL points to this shop's database.",
+    );
+  }
+
+  let held = 0;
+  while (held + 1 < entries.length && Array.from(schemaColumns(held + 1)).every((column) => presentColumns.has(column))) {
+    held++;
+  }
+  if (held + 1 < entries.length) {
+    const heldColumns = schemaColumns(held);
+    const partial = Array.from(schemaColumns(held + 1)).filter(
+      (column) => presentColumns.has(column) && !heldColumns.has(column),
+    );
+    if (partial.length > 0) {
+      throw new Error(
+        `The database predates migrations and holds only part of migration ${entries[held + 1].tag} ` +
+          `(${listColumns(partial)}), so it cannot be migrated. Restore it from a backup taken before ` +
+          "those tables and columns were added, then migrate again.",
+      );
+    }
+  }
+
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_DIR }).slice(0, held + 1);
+  for (const migration of migrations) {
+    await db.execute(sql`
+      insert into drizzle.__drizzle_migrations (hash, created_at)
+      values (${migration.hash}, ${migration.folderMillis})
+    `);
+  }
+  console.log(`Existing database recorded at migration ${entries[held].tag}`);
+}
+
+// Each driver has its own migrator. db is typed for node-postgres with
+// either driver (see db.ts).
+async function applySqlMigrations(): Promise<void> {
+  const config = { migrationsFolder: MIGRATIONS_DIR };
+  if (getDatabaseConfig().driver === "neon") {
+    await migrateNeon(db as unknown as Parameters<typeof migrateNeon>[0], config);
+  } else {
+    await migrateNodePg(db, config);
+  }
+}
+
+async function runDataMigrations(): Promise<void> {
+  const applied = new Set((await db.select({ id: dataMigrations.id }).from(dataMigrations)).map((row) => row.id));
+
+  for (const migration of DATA_MIGRATIONS) {
+    if (applied.has(migration.id)) continue;
+    await db.transaction(async (tx) => {
+      await migration.run(tx);
+      await tx.insert(dataMigrations).values({ id: migration.id });
+    });
+    console.log(`Applied data migration ${migration.id}`);
+  }
+}
+
+export async function runMigrations(): Promise<void> {
+  await withMigrationLock(async () => {
+    await baselinePushedDatabase();
+    await applySqlMigrations();
+    await runDataMigrations();
+  });
+}
+
+if (process.argv[1]?.endsWith("migrate.ts")) {
+  runMigrations()
+    .then(() => {
+      console.log("Database is up to date");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,31 @@
+// Prices are numeric(10,2) strings; do the arithmetic in integer cents.
+export function toCents(price: string): number {
+  return Math.round(parseFloat(price) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// As shown to buyers, e.g. "$ 1.500"
+export function formatPrice(price: string): string {
+  return new Intl.NumberFormat("es-AR", {
+    style: "currency",
+    currency: "ARS",
+    minimumFractionDigits: 0,
+  }).format(parseFloat(price));
+}
+
+// What refunding `count` units of an order line returns, when `refunded`
+// units were refunded before. The line's discount is spread so the shares of
+// successive partial refunds add up to exactly the whole discount.
+export function lineRefundCents(
+  line: { price: string; discount: string; quantity: number },
+  refunded: number,
+  count: number,
+): number {
+  const discountCents = toCents(line.discount);
+  const discountShare = Math.floor((discountCents * (refunded + count)) / line.quantity)
+    - Math.floor((discountCents * refunded) / line.quantity);
+  return toCents(line.price) * count - discountShare;
+}
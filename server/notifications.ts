@@ -0,0 +1,117 @@
+import type { AdminConfigDB, LicenseKey, OrderDownload, OrderStatus, OrderWithItems } from "@shared/schema";
+import { queueEmail } from "./email";
+import { trackingUrl } from "./order-tracking";
+import { storage } from "./storage";
+
+// Emails sent as an order moves along, to the buyer and to the shop. Each
+// one can be turned off in the admin config; lifecycle emails carry a dedupe
+// key so retried requests and webhook redeliveries do not send them twice.
+// Callers treat failures here as non-fatal: the order change already stands.
+
+type NotificationSetting =
+  | "notifyOrderReceived"
+  | "notifyPaymentApproved"
+  | "notifyOrderShipped"
+  | "notifyOrderDelivered"
+  | "alertNewOrder"
+  | "alertLowStock";
+
+// Before the admin saves the config every notification is on, as the
+// column defaults have it
+function enabled(config: AdminConfigDB | undefined, setting: NotificationSetting): boolean {
+  return config ? config[setting] : true;
+}
+
+function ownerEmail(config: AdminConfigDB | undefined): string | null {
+  return config?.alertEmail || config?.smtpEmail || null;
+}
+
+// Guests follow the order on the tracking page; account holders in "Mis Pedidos"
+function orderTrackingUrl(order: OrderWithItems, baseUrl: string): string | null {
+  return order.trackingToken ? trackingUrl(baseUrl, order.trackingToken) : null;
+}
+
+export async function notifyOrderPlaced(order: OrderWithItems, baseUrl: string): Promise<void> {
+  const config = await storage.getAdminConfig();
+
+  if (enabled(config, "notifyOrderReceived")) {
+    await queueEmail(
+      order.customerEmail,
+      "order_received",
+      { order, trackingUrl: orderTrackingUrl(order, baseUrl) },
+      `order-received:${order.id}`,
+    );
+  }
+
+  const owner = ownerEmail(config);
+  if (!owner) return;
+
+  if (enabled(config, "alertNewOrder")) {
+    await queueEmail(owner, "owner_new_order", { order, adminUrl: `${baseUrl}/admin` }, `owner-new-order:${order.id}`);
+  }
+  if (enabled(config, "alertLowStock")) {
+    await alertLowStock(order, owner, config?.lowStockThreshold ?? 3, baseUrl);
+  }
+}
+
+// The order lines hold the products as they were before the order took its
+// units, so the stock is read again. A product that stays low is reported
+// at most once a day, plus once more if it runs out.
+async function alertLowStock(order: OrderWithItems, owner: string, threshold: number, baseUrl: string): Promise<void> {
+  const day = new Date().toISOString().slice(0, 10);
+  for (const item of order.items) {
+    if (item.product.type !== "physical") continue;
+
+    const product = await storage.getProduct(item.productId);
+    if (!product || product.stock === null || product.stock > threshold) continue;
+
+    await queueEmail(
+      owner,
+      "owner_low_stock",
+      { productName: product.name, stock: product.stock, threshold, adminUrl: `${baseUrl}/admin` },
+      `${product.stock === 0 ? "out-of-stock" : "low-stock"}:${product.id}:${day}`,
+    );
+  }
+}
+
+// Sent once per order when the payment is approved, and again for digital
+// products delivered later (e.g. license keys imported after the pool ran
+// out). Emails that carry products go out even with the notification off.
+export async function notifyPaymentApproved(
+  order: OrderWithItems,
+  downloads: OrderDownload[],
+  keys: LicenseKey[],
+): Promise<void> {
+  const delivers = downloads.length > 0 || keys.length > 0;
+  const config = await storage.getAdminConfig();
+  if (!delivers && !enabled(config, "notifyPaymentApproved")) return;
+
+  const data = { order, downloads, keys };
+  const queued = await queueEmail(order.customerEmail, "payment_approved", data, `payment-approved:${order.id}`);
+  if (!queued && delivers) {
+    await queueEmail(order.customerEmail, "payment_approved", data);
+  }
+}
+
+// Called after an admin changes the status; only shipping and delivery
+// are announced
+export async function notifyOrderStatusChanged(orderId: string, status: OrderStatus, baseUrl: string): Promise<void> {
+  if (status !== "shipped" && status !== "delivered") return;
+
+  const config = await storage.getAdminConfig();
+  if (!enabled(config, status === "shipped" ? "notifyOrderShipped" : "notifyOrderDelivered")) return;
+
+  const order = await storage.getOrder(orderId);
+  if (!order) return;
+
+  if (status === "shipped") {
+    await queueEmail(
+      order.customerEmail,
+      "shipped",
+      { order, trackingUrl: orderTrackingUrl(order, baseUrl) },
+      `order-shipped:${order.id}`,
+    );
+  } else {
+    await queueEmail(order.customerEmail, "delivered", { order, shopUrl: baseUrl }, `order-delivered:${order.id}`);
+  }
+}
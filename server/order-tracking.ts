@@ -0,0 +1,64 @@
+import crypto from "crypto";
+import type { OrderWithItems, PaymentStatus, TrackedOrder, User } from "@shared/schema";
+import { safeEqual, sign } from "./auth";
+import { queueEmail } from "./email";
+
+// Claim links prove the buyer reads the account's inbox; registration does
+// not verify emails, so matching addresses alone is not enough
+export const CLAIM_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function newTrackingToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function trackingUrl(baseUrl: string, token: string): string {
+  return `${baseUrl}/orders/track/${token}`;
+}
+
+export function toTrackedOrder(order: OrderWithItems): TrackedOrder {
+  return {
+    id: order.id,
+    number: order.number,
+    status: order.status,
+    createdAt: order.createdAt,
+    total: order.total,
+    discount: order.discount,
+    couponCode: order.couponCode,
+    shippingMethod: order.shippingMethod,
+    shippingCost: order.shippingCost,
+    shippingCity: order.shippingCity,
+    shippingProvince: order.shippingProvince,
+    trackingCode: order.trackingCode,
+    paymentStatus: (order.payment?.status as PaymentStatus | undefined) ?? null,
+    items: order.items.map((item) => ({
+      id: item.id,
+      productName: item.product.name,
+      imageUrl: item.product.imageUrl,
+      quantity: item.quantity,
+      refundedQuantity: item.refundedQuantity,
+      price: item.price,
+    })),
+    // Which admin made a change is internal
+    statusHistory: order.statusHistory.map((entry) => ({ ...entry, changedBy: null, changedByName: null })),
+  };
+}
+
+function claimSignature(user: User, expires: number): string {
+  return sign(`order-claim:${user.id}:${user.email.toLowerCase()}:${expires}`);
+}
+
+// Emails the account a link that attaches its guest orders
+export async function sendClaimEmail(user: User, baseUrl: string, now = new Date()): Promise<void> {
+  const expires = now.getTime() + CLAIM_LINK_TTL_MS;
+  await queueEmail(user.email, "order_claim", {
+    name: user.name,
+    email: user.email,
+    claimUrl: `${baseUrl}/orders/claim?expires=${expires}&signature=${claimSignature(user, expires)}`,
+  });
+}
+
+// The signature covers the account's current email, so the link stops
+// working if the email is changed in between
+export function verifyClaimSignature(user: User, expires: number, signature: string, now = new Date()): boolean {
+  return expires > now.getTime() && safeEqual(signature, claimSignature(user, expires));
+}
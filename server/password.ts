@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>. Keeping the cost
+// parameters in the row lets them be raised later without breaking old hashes.
+const SCHEME = "scrypt";
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export interface PasswordCheck {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, KEY_LENGTH, COST);
+  return [SCHEME, COST.N, COST.r, COST.p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+// False for legacy rows that still hold the password itself
+export function isPasswordHash(stored: string): boolean {
+  const parts = stored.split("$");
+  return parts[0] === SCHEME && parts.length === 6;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  if (!isPasswordHash(stored)) {
+    // Legacy row saved before hashing was introduced: compare as plaintext
+    // and ask the caller to upgrade it.
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    const valid = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split("$");
+  const expected = Buffer.from(hashB64, "base64");
+  const params = { N: Number(n), r: Number(r), p: Number(p) };
+  const actual = await scrypt(password, Buffer.from(saltB64, "base64"), expected.length, params);
+
+  const valid = actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  const outdated = params.N !== COST.N || params.r !== COST.r || params.p !== COST.p;
+  return { valid, needsRehash: valid && outdated };
+}
+
+let dummyHash: Promise<string> | undefined;
+
+// Checked against when a login names an unknown email, so that answer takes
+// as long as a wrong password and does not tell which emails have accounts
+export function dummyPasswordHash(): Promise<string> {
+  dummyHash ??= hashPassword(crypto.randomBytes(SALT_BYTES).toString("base64"));
+  return dummyHash;
+}
@@ -0,0 +1,107 @@
+import type { AdminConfigDB, PaymentInstructions, PaymentMethodId, PaymentMethodOption } from "@shared/schema";
+
+// Server-side registry of checkout payment methods. Adding a method means
+// adding an entry here (plus its id to PAYMENT_METHODS); routes and the
+// checkout only go through this module.
+export interface PaymentMethodDefinition {
+  id: PaymentMethodId;
+  label: string;
+  description: string;
+  // The buyer pays on an external provider page and a webhook settles it
+  redirectsToProvider: boolean;
+  // The buyer can upload proof of payment for an admin to review
+  acceptsReceipt: boolean;
+  // Settled manually by an admin (approve/reject) rather than by a provider
+  manualReview: boolean;
+  // Paid when the buyer collects the order, so it cannot ship by carrier
+  pickupOnly: boolean;
+  isConfigured(config: AdminConfigDB | undefined): boolean;
+  // orderNumber is the formatted one buyers quote as the payment reference
+  instructions(config: AdminConfigDB | undefined, orderNumber: string): PaymentInstructions | null;
+}
+
+const registry: Record<PaymentMethodId, PaymentMethodDefinition> = {
+  mercadopago: {
+    id: "mercadopago",
+    label: "MercadoPago",
+    description: "Pago seguro con tarjetas de crédito, débito y otros métodos",
+    redirectsToProvider: true,
+    acceptsReceipt: false,
+    manualReview: false,
+    pickupOnly: false,
+    isConfigured: (config) => !!(config?.mpAccessToken && config?.mpPublicKey),
+    instructions: () => null,
+  },
+
+  bank_transfer: {
+    id: "bank_transfer",
+    label: "Transferencia bancaria",
+    description: "Transferí el total y subí el comprobante; confirmamos tu pedido al verificarlo",
+    redirectsToProvider: false,
+    acceptsReceipt: true,
+    manualReview: true,
+    pickupOnly: false,
+    isConfigured: (config) => !!(config?.bankTransferCbu || config?.bankTransferAlias),
+    instructions: (config, orderNumber) => ({
+      title: "Datos para la transferencia",
+      details: [
+        { label: "CBU", value: config?.bankTransferCbu },
+        { label: "Alias", value: config?.bankTransferAlias },
+        { label: "Titular", value: config?.bankTransferHolder },
+        { label: "Banco", value: config?.bankTransferBank },
+        { label: "Referencia", value: orderNumber },
+      ].filter((detail): detail is { label: string; value: string } => !!detail.value),
+      note: `Transferí el importe exacto con ${orderNumber} como referencia o concepto y subí el comprobante para que podamos confirmar tu pedido.`,
+    }),
+  },
+
+  cash_on_pickup: {
+    id: "cash_on_pickup",
+    label: "Efectivo al retirar",
+    description: "Pagás en efectivo cuando retirás tu pedido",
+    redirectsToProvider: false,
+    acceptsReceipt: false,
+    manualReview: true,
+    pickupOnly: true,
+    isConfigured: (config) => !!config?.cashPickupInstructions,
+    instructions: (config, orderNumber) => ({
+      title: "Retiro y pago en efectivo",
+      details: [
+        ...(config?.cashPickupInstructions ? [{ label: "Dónde y cuándo", value: config.cashPickupInstructions }] : []),
+        { label: "Pedido", value: orderNumber },
+      ],
+      note: "Te avisaremos cuando tu pedido esté listo para retirar.",
+    }),
+  },
+};
+
+export function getPaymentMethod(id: PaymentMethodId): PaymentMethodDefinition {
+  return registry[id];
+}
+
+// Before admins could choose, MercadoPago was the only method
+function enabledIds(config: AdminConfigDB | undefined): PaymentMethodId[] {
+  return config?.enabledPaymentMethods ?? ["mercadopago"];
+}
+
+// Methods the admin enabled that also have the settings they need
+export function getAvailablePaymentMethods(config: AdminConfigDB | undefined): PaymentMethodDefinition[] {
+  return enabledIds(config)
+    .filter((id) => id in registry)
+    .map((id) => registry[id])
+    .filter((method) => method.isConfigured(config));
+}
+
+export function isPaymentMethodAvailable(config: AdminConfigDB | undefined, id: PaymentMethodId): boolean {
+  return getAvailablePaymentMethods(config).some((method) => method.id === id);
+}
+
+export function toPaymentMethodOption(method: PaymentMethodDefinition): PaymentMethodOption {
+  return {
+    id: method.id,
+    label: method.label,
+    description: method.description,
+    acceptsReceipt: method.acceptsReceipt,
+    pickupOnly: method.pickupOnly,
+  };
+}
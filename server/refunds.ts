@@ -0,0 +1,172 @@
+import type { CreateRefund, Order, OrderStatusChange, OrderWithItems, Refund } from "@shared/schema";
+import { NotFoundError, ValidationError } from "./errors";
+import { MercadoPagoError, refundPayment } from "./mercadopago";
+import { storage } from "./storage";
+
+// Refunds selected order lines. The refund is reserved first, so its id can
+// be the MercadoPago idempotency key and a concurrent refund cannot take the
+// same units; it is completed once the money went back, or marked failed
+// when MercadoPago turns it down. Other methods are returned to the buyer by
+// hand and only recorded here.
+export async function refundOrder(
+  orderId: string,
+  { items, restock, note }: CreateRefund,
+  createdBy: string | null,
+): Promise<Refund> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw new NotFoundError("Orden no encontrada");
+  }
+
+  const payment = order.payment;
+  if (!payment || payment.status !== "approved") {
+    throw new ValidationError("La orden no tiene un pago acreditado para reembolsar");
+  }
+
+  let mercadoPago: MercadoPagoRefundTarget | null = null;
+  if (payment.method === "mercadopago") {
+    const config = await storage.getAdminConfig();
+    if (!config?.mpAccessToken) {
+      throw new ValidationError("MercadoPago no configurado");
+    }
+    if (!payment.providerPaymentId) {
+      throw new ValidationError("El pago no tiene un identificador de MercadoPago");
+    }
+    mercadoPago = { accessToken: config.mpAccessToken, paymentId: payment.providerPaymentId };
+  }
+
+  // A refund whose outcome is still unknown (e.g. MercadoPago timed out) is
+  // sent again with its own id before anything else is refunded, so asking
+  // twice cannot return the money twice
+  const pending = await storage.getPendingRefund(order.id);
+  if (pending) {
+    return settleRefund(pending, mercadoPago);
+  }
+
+  // Merge repeated lines so the available quantity is checked once
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.orderItemId, (quantities.get(item.orderItemId) ?? 0) + item.quantity);
+  }
+
+  const refund = await storage.createRefund({
+    orderId: order.id,
+    provider: mercadoPago ? "mercadopago" : "manual",
+    items: Array.from(quantities, ([orderItemId, quantity]) => ({ orderItemId, quantity })),
+    restock,
+    createdBy,
+    note,
+  });
+  return settleRefund(refund, mercadoPago);
+}
+
+interface MercadoPagoRefundTarget {
+  accessToken: string;
+  paymentId: string;
+}
+
+async function settleRefund(refund: Refund, mercadoPago: MercadoPagoRefundTarget | null): Promise<Refund> {
+  if (refund.provider !== "mercadopago") {
+    return storage.completeRefund(refund.id, null);
+  }
+  if (!mercadoPago) {
+    throw new ValidationError("MercadoPago no configurado");
+  }
+
+  let providerRefundId: string;
+  try {
+    const providerRefund = await refundPayment(
+      mercadoPago.accessToken,
+      mercadoPago.paymentId,
+      parseFloat(refund.amount),
+      refund.id,
+    );
+    providerRefundId = String(providerRefund.id);
+  } catch (error) {
+    // After a timeout or a server error the money may have gone back: the
+    // refund stays pending for the retry
+    if (error instanceof MercadoPagoError && error.rejected) {
+      await storage.failRefund(refund.id);
+    }
+    throw error;
+  }
+  return storage.completeRefund(refund.id, providerRefundId);
+}
+
+function remainingLines(order: OrderWithItems) {
+  return order.items
+    .filter((item) => item.quantity > item.refundedQuantity)
+    .map((item) => ({ orderItemId: item.id, quantity: item.quantity - item.refundedQuantity }));
+}
+
+// Refunds every line not refunded yet
+export async function refundRemaining(orderId: string, change: OrderStatusChange): Promise<Refund> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw new NotFoundError("Orden no encontrada");
+  }
+
+  const items = remainingLines(order);
+  if (items.length === 0) {
+    throw new ValidationError("La orden ya fue reembolsada por completo");
+  }
+  return refundOrder(orderId, { items, restock: true, note: change.note ?? undefined }, change.changedBy ?? null);
+}
+
+// Records money MercadoPago returned on its own (a refund made from its
+// panel, or a chargeback) for every line not refunded yet. Undefined when
+// nothing is left, e.g. for the notification of a refund made here.
+export async function recordProviderRefund(orderId: string, change: OrderStatusChange): Promise<Refund | undefined> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw new NotFoundError("Orden no encontrada");
+  }
+
+  const items = remainingLines(order);
+  if (items.length === 0) {
+    return undefined;
+  }
+  const refund = await storage.createRefund({
+    orderId,
+    provider: "mercadopago",
+    items,
+    restock: true,
+    createdBy: change.changedBy ?? null,
+    note: change.note ?? null,
+  });
+  return storage.completeRefund(refund.id, null);
+}
+
+export interface CancelResult {
+  order: Order;
+  // The order was paid and the money still has to be returned
+  refundPending: boolean;
+}
+
+// Cancels and restocks the order. A MercadoPago payment is refunded right
+// away; payments collected by other means stay pending until an admin
+// records the refund (the order then moves from cancelled to refunded).
+export async function cancelOrder(orderId: string, change: OrderStatusChange): Promise<CancelResult> {
+  const cancelled = await storage.cancelOrder(orderId, change);
+  if (!cancelled) {
+    throw new NotFoundError("Orden no encontrada");
+  }
+
+  const order = await storage.getOrder(orderId);
+  if (order?.payment?.status !== "approved") {
+    return { order: cancelled, refundPending: false };
+  }
+
+  if (order.payment.method === "mercadopago") {
+    try {
+      await refundRemaining(orderId, { changedBy: change.changedBy, note: "Reembolso por cancelación" });
+      const refunded = await storage.getOrder(orderId);
+      return { order: refunded ?? cancelled, refundPending: false };
+    } catch (error) {
+      // The cancellation stands; the refund can be retried from the admin panel
+      console.error(`Automatic refund for cancelled order ${orderId} failed:`, error);
+    }
+  }
+
+  return { order: cancelled, refundPending: true };
+}
@@ -0,0 +1,99 @@
+import crypto from "crypto";
+import type { AdminConfigDB, AdminConfigView, SecretStatus } from "@shared/schema";
+
+// Envelope encryption for the secrets kept in admin config. Every value gets
+// its own random data key; the data key is stored wrapped with the master
+// key from CONFIG_ENCRYPTION_KEY (32 bytes, base64, e.g. from
+// `openssl rand -base64 32`). Both layers use AES-256-GCM, so a tampered
+// value or a different master key fails to decrypt instead of yielding
+// garbage.
+//
+// Stored format: enc:v1:<key id>:<wrapped data key>:<encrypted value>, where
+// the last two are base64url of iv + auth tag + ciphertext.
+
+export const ENCRYPTED_CONFIG_FIELDS = ["smtpPassword", "mpAccessToken", "mpWebhookSecret"] as const;
+export type EncryptedConfigField = typeof ENCRYPTED_CONFIG_FIELDS[number];
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+let masterKey: Buffer | undefined;
+
+function getMasterKey(): Buffer {
+  if (masterKey) return masterKey;
+
+  const encoded = process.env.CONFIG_ENCRYPTION_KEY;
+  if (encoded) {
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== 32) {
+      throw new Error("CONFIG_ENCRYPTION_KEY must be 32 bytes encoded in base64");
+    }
+    masterKey = key;
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("CONFIG_ENCRYPTION_KEY must be set in production");
+  } else {
+    // Development fallback: a fixed key, so secrets saved locally survive
+    // restarts. It is public, so it protects nothing.
+    console.warn("CONFIG_ENCRYPTION_KEY not set, using the development key");
+    masterKey = crypto.createHash("sha256").update("edujuegos-development-config-key").digest();
+  }
+  return masterKey;
+}
+
+// Names the master key in stored values, so a wrong key is reported as such
+function keyId(key: Buffer): string {
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64url");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64url");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(value: string): string {
+  const master = getMasterKey();
+  const dataKey = crypto.randomBytes(32);
+  return `${PREFIX}${keyId(master)}:${seal(master, dataKey)}:${seal(dataKey, Buffer.from(value, "utf8"))}`;
+}
+
+// Values saved before encryption was added come back unchanged
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [id, wrappedKey, payload] = value.slice(PREFIX.length).split(":");
+  const master = getMasterKey();
+  if (id !== keyId(master)) {
+    throw new Error(`Admin config secrets were encrypted with another CONFIG_ENCRYPTION_KEY (key id ${id})`);
+  }
+  return open(open(master, wrappedKey), payload).toString("utf8");
+}
+
+// Shows just enough of a secret to tell which one is saved
+function secretStatus(value: string | null): SecretStatus {
+  if (!value) return { configured: false, masked: null };
+  return { configured: true, masked: value.length >= 12 ? `••••${value.slice(-4)}` : "••••••••" };
+}
+
+// What the admin API returns: the config without its secrets
+export function toAdminConfigView(config: AdminConfigDB): AdminConfigView {
+  return {
+    ...config,
+    smtpPassword: secretStatus(config.smtpPassword),
+    mpAccessToken: secretStatus(config.mpAccessToken),
+    mpWebhookSecret: secretStatus(config.mpWebhookSecret),
+  };
+}
@@ -1,10 +1,11 @@
 import { db } from "./db";
 import { users, products } from "@shared/schema";
 import { InsertUser, InsertProduct } from "@shared/schema";
+import { hashPassword } from "./password";
 
 const adminUser: InsertUser = {
   email: "admin@edujuegos.com",
-  password: "admin123", // In production, this should be hashed
+  password: "admin123", // Hashed before insert
   name: "María González",
   role: "admin",
 };
@@ -88,7 +89,7 @@ async function seed() {
 
     if (existingUsers.length === 0) {
       console.log("👤 Seeding admin user...");
-      await db.insert(users).values(adminUser);
+      await db.insert(users).values({ ...adminUser, password: await hashPassword(adminUser.password) });
       console.log("✅ Admin user created successfully");
     } else {
       console.log("👤 Admin user already exists, skipping...");
@@ -116,75 +117,3 @@ seed().then(() => {
 });
 
 export { seed };
-import { db } from "./db";
-import { users, products, adminConfig } from "@shared/schema";
-import bcrypt from "bcryptjs";
-
-async function seed() {
-  console.log("🌱 Seeding database...");
-
-  try {
-    // Create admin user
-    const adminPassword = await bcrypt.hash("admin123", 10);
-    await db.insert(users).values({
-      email: "admin@test.com",
-      password: adminPassword,
-      name: "Administrador",
-      role: "admin"
-    }).onConflictDoNothing();
-
-    // Create sample products
-    const sampleProducts = [
-      {
-        name: "Kit de Evaluación Cognitiva",
-        description: "Kit completo para evaluación de habilidades cognitivas en niños",
-        price: "89.99",
-        imageUrl: "https://images.unsplash.com/photo-1481627834876-b7833e8f5570?w=400",
-        type: "physical",
-        ageRange: "6-12",
-        category: "evaluacion",
-        stock: 15
-      },
-      {
-        name: "Curso Online: Estrategias de Aprendizaje",
-        description: "Curso digital con estrategias efectivas para mejorar el aprendizaje",
-        price: "49.99",
-        imageUrl: "https://images.unsplash.com/photo-1516321318423-f06f85e504b3?w=400",
-        type: "digital",
-        ageRange: "8-16",
-        category: "curso",
-        stock: null
-      },
-      {
-        name: "Material de Lectoescritura",
-        description: "Conjunto de materiales para desarrollar la lectoescritura",
-        price: "39.99",
-        imageUrl: "https://images.unsplash.com/photo-1503676260728-1c00da094a0b?w=400",
-        type: "physical",
-        ageRange: "4-8",
-        category: "material",
-        stock: 25
-      }
-    ];
-
-    await db.insert(products).values(sampleProducts).onConflictDoNothing();
-
-    // Create admin config
-    await db.insert(adminConfig).values({
-      mpAccessToken: "",
-      mpPublicKey: "",
-      smtpEmail: "",
-      smtpPassword: ""
-    }).onConflictDoNothing();
-
-    console.log("✅ Database seeded successfully!");
-  } catch (error) {
-    console.error("❌ Error seeding database:", error);
-    throw error;
-  }
-}
-
-seed().catch((error) => {
-  console.error("Seed failed:", error);
-  process.exit(1);
-});
@@ -0,0 +1,62 @@
+import { CARRIER_SHIPPING_METHODS } from "@shared/schema";
+import type { CarrierShippingMethod, Product, ShippingAddress, ShippingMethod, ShippingOption, ShippingRate } from "@shared/schema";
+
+export const SHIPPING_METHOD_LABELS: Record<ShippingMethod, string> = {
+  home: "Envío a domicilio",
+  branch: "Retiro en sucursal del correo",
+  pickup: "Retiro en el local",
+};
+
+// Assumed for products saved before weights were recorded
+export const DEFAULT_WEIGHT_GRAMS = 500;
+// Carriers bill the volumetric weight when it is higher: length × width ×
+// height in cm³ divided by 5000 gives kilograms, so by 5 gives grams
+const VOLUMETRIC_DIVISOR = 5;
+
+export interface ShippingLine {
+  product: Product;
+  quantity: number;
+}
+
+export function needsShipping(lines: ShippingLine[]): boolean {
+  return lines.some((line) => line.product.type === "physical");
+}
+
+function billableWeightGrams(product: Product): number {
+  const weight = product.weightGrams ?? DEFAULT_WEIGHT_GRAMS;
+  if (!product.lengthCm || !product.widthCm || !product.heightCm) return weight;
+  const volumetric = Math.ceil((product.lengthCm * product.widthCm * product.heightCm) / VOLUMETRIC_DIVISOR);
+  return Math.max(weight, volumetric);
+}
+
+// Weight the parcel is billed at; digital products do not ship
+export function parcelWeightGrams(lines: ShippingLine[]): number {
+  return lines
+    .filter((line) => line.product.type === "physical")
+    .reduce((sum, line) => sum + billableWeightGrams(line.product) * line.quantity, 0);
+}
+
+// The cheapest tier of the method the parcel fits in, if any
+export function pickRate(rates: ShippingRate[], method: CarrierShippingMethod, weightGrams: number): ShippingRate | undefined {
+  return rates
+    .filter((rate) => rate.method === method && (rate.maxWeightGrams === null || rate.maxWeightGrams >= weightGrams))
+    .sort((a, b) => parseFloat(a.price) - parseFloat(b.price))[0];
+}
+
+// One option per method the zone can carry the parcel with. Picking up at the
+// shop is always free and is not quoted.
+export function shippingOptions(rates: ShippingRate[], weightGrams: number): ShippingOption[] {
+  const options: ShippingOption[] = [];
+  for (const method of CARRIER_SHIPPING_METHODS) {
+    const rate = pickRate(rates, method, weightGrams);
+    if (rate) {
+      options.push({ method, label: SHIPPING_METHOD_LABELS[method], cost: rate.price, deliveryTime: rate.deliveryTime });
+    }
+  }
+  return options;
+}
+
+// The one-line form kept on the order, e.g. for packing slips
+export function formatShippingAddress(address: ShippingAddress): string {
+  return `${address.street}, ${address.city} (${address.postalCode.toUpperCase()}), ${address.province}`;
+}
@@ -0,0 +1,124 @@
+// Minimal local SMTP stand-in, for development and tests.
+//
+//   npm run smtp:fake                           # SMTP on SMTP_FAKE_PORT (default 2525)
+//   SMTP_URL=smtp://localhost:2525 npm run dev
+//
+// Every message is accepted (along with any credentials), logged and kept
+// in memory; GET http://localhost:2526/messages (SMTP_FAKE_HTTP_PORT) lists
+// them with their raw source. Set SMTP_FAKE_FAILURE_RATE (0 to 1) to reject
+// that share of messages with a temporary error and watch the outbox retry.
+import { createServer as createHttpServer } from "http";
+import { createServer, type Server, type Socket } from "net";
+
+export interface FakeEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  raw: string;
+  receivedAt: string;
+}
+
+// Undoes RFC 2047 encoded words (=?UTF-8?B?...?= / =?UTF-8?Q?...?=)
+function decodeHeader(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=\s*/g, (_match, _charset, encoding: string, text: string) => {
+    if (encoding.toUpperCase() === "B") {
+      return Buffer.from(text, "base64").toString("utf8");
+    }
+    const bytes = text.replace(/_/g, " ").replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) => String.fromCharCode(parseInt(code, 16)));
+    return Buffer.from(bytes, "latin1").toString("utf8");
+  });
+}
+
+function headerValue(raw: string, name: string): string {
+  const headers = raw.split(/\r?\n\r?\n/)[0].replace(/\r?\n[ \t]+/g, " ");
+  const line = headers.split(/\r?\n/).find((header) => header.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+  return line ? decodeHeader(line.slice(name.length + 1).trim()) : "";
+}
+
+export function createFakeSmtpServer(messages: FakeEmail[], failureRate = 0): Server {
+  return createServer((socket: Socket) => {
+    let buffer = "";
+    let from = "";
+    let to: string[] = [];
+    let dataLines: string[] | null = null;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const handleLine = (line: string) => {
+      if (dataLines) {
+        if (line !== ".") {
+          dataLines.push(line.startsWith("..") ? line.slice(1) : line);
+          return;
+        }
+        const raw = dataLines.join("\r\n");
+        dataLines = null;
+        if (Math.random() < failureRate) {
+          return reply("451 4.3.0 Fake temporary failure, try again later");
+        }
+        const email: FakeEmail = { from, to, subject: headerValue(raw, "Subject"), raw, receivedAt: new Date().toISOString() };
+        messages.push(email);
+        console.log(`Fake SMTP received "${email.subject}" for ${to.join(", ")}`);
+        return reply("250 2.0.0 Queued");
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === "EHLO") {
+        return socket.write("250-localhost\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+      }
+      if (command === "HELO") return reply("250 localhost");
+      if (command === "AUTH") return reply("235 2.7.0 Accepted");
+      if (command === "MAIL") {
+        from = line.replace(/^MAIL FROM:\s*/i, "").replace(/[<>]/g, "").split(" ")[0];
+        to = [];
+        return reply("250 2.1.0 OK");
+      }
+      if (command === "RCPT") {
+        to.push(line.replace(/^RCPT TO:\s*/i, "").replace(/[<>]/g, "").split(" ")[0]);
+        return reply("250 2.1.5 OK");
+      }
+      if (command === "DATA") {
+        dataLines = [];
+        return reply("354 End data with <CR><LF>.<CR><LF>");
+      }
+      if (command === "RSET" || command === "NOOP") return reply("250 2.0.0 OK");
+      if (command === "QUIT") {
+        reply("221 2.0.0 Bye");
+        return socket.end();
+      }
+      reply("502 5.5.2 Command not implemented");
+    };
+
+    reply("220 localhost Fake SMTP");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        handleLine(line);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  });
+}
+
+if (process.argv[1]?.endsWith("smtp-fake.ts")) {
+  const port = parseInt(process.env.SMTP_FAKE_PORT || "2525", 10);
+  const httpPort = parseInt(process.env.SMTP_FAKE_HTTP_PORT || "2526", 10);
+  const failureRate = parseFloat(process.env.SMTP_FAKE_FAILURE_RATE || "0");
+  const messages: FakeEmail[] = [];
+
+  createFakeSmtpServer(messages, failureRate).listen(port, () => {
+    console.log(`Fake SMTP server listening on smtp://localhost:${port}`);
+  });
+  createHttpServer((req, res) => {
+    if (req.method === "GET" && req.url === "/messages") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      return res.end(JSON.stringify(messages));
+    }
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ message: "not found" }));
+  }).listen(httpPort, () => {
+    console.log(`Received messages at http://localhost:${httpPort}/messages`);
+  });
+}
@@ -4,16 +4,173 @@ import {
   Product,
   InsertProduct,
   Order,
-  InsertOrder,
-  OrderItem,
-  InsertOrderItem,
+  CreateOrder,
+  OrderLineError,
   OrderWithItems,
   AdminConfigDB,
   InsertAdminConfigDB,
+  UserSession,
+  InsertPaymentEvent,
+  PaymentEvent,
+  EmailOutboxEntry,
+  InsertEmailOutboxEntry,
+  Payment,
+  UpdatePayment,
+  OrderStatus,
+  OrderStatusChange,
+  Refund,
+  ProductFile,
+  InsertProductFile,
+  DownloadLink,
+  InsertDownloadLink,
+  LicenseKey,
+  CourseModule,
+  CourseModuleInput,
+  CourseLesson,
+  CourseLessonInput,
+  Cart,
+  StoredCartItem,
+  AdminCartSummary,
+  CartReminder,
+  InsertCartReminder,
+  Coupon,
+  CouponInput,
+  CouponQuote,
+  AdminCoupon,
+  CartItemInput,
+  Province,
+  ShippingQuote,
+  ShippingRate,
+  ShippingZone,
+  ShippingZoneInput,
+  ShippingZoneView,
+  UserAddress,
+  UserAddressInput,
+  canTransitionOrder,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
-import { users, products, orders, orderItems, adminConfig, passwordResetTokens } from "@shared/schema";
+import { eq, asc, desc, and, or, isNull, isNotNull, ne, inArray, notInArray, gt, gte, lt, lte, sql, type SQL } from "drizzle-orm";
+import { users, products, orders, orderItems, orderStatusHistory, payments, refunds, refundItems, productFiles, downloadLinks, licenseKeys, courseModules, courseLessons, lessonProgress, carts, cartItems, cartReminders, coupons, couponRedemptions, shippingZones, shippingRates, userAddresses, adminConfig, passwordResetTokens, userSessions, paymentEvents, emailOutbox } from "@shared/schema";
+import { NotFoundError, ValidationError } from "./errors";
+import { applyCoupon, normalizeCouponCode, toCouponQuote, type AppliedCoupon, type CouponLine } from "./coupons";
+import { getPaymentMethod } from "./payment-methods";
+import { formatShippingAddress, needsShipping, parcelWeightGrams, pickRate, shippingOptions } from "./shipping";
+import { fromCents, lineRefundCents, toCents } from "./money";
+import { decryptSecret, encryptSecret, ENCRYPTED_CONFIG_FIELDS, isEncrypted, type EncryptedConfigField } from "./secrets";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface UpdatePaymentOptions {
+  // Only update while the payment is in one of these statuses
+  fromStatuses?: string[];
+  // Move the order to this status in the same transaction
+  orderStatus?: OrderStatus;
+  statusChange?: OrderStatusChange;
+}
+
+export interface NewRefund {
+  orderId: string;
+  provider: "mercadopago" | "manual";
+  items: { orderItemId: string; quantity: number }[];
+  restock: boolean;
+  createdBy?: string | null;
+  note?: string | null;
+}
+
+// Who an order belongs to: the signed-in buyer, or a guest holding the
+// tracking token
+export interface OrderOwner {
+  userId?: string | null;
+  trackingToken?: string | null;
+}
+
+export interface DownloadLinkWithFile extends DownloadLink {
+  file: ProductFile;
+  productName: string;
+}
+
+export interface LicenseKeyCounts {
+  productId: string;
+  productName: string;
+  available: number;
+  assigned: number;
+}
+
+// A paid order line of a license key product that has fewer keys than units
+export interface LicenseKeyShortfall {
+  orderId: string;
+  orderItemId: string;
+  productId: string;
+  missing: number;
+}
+
+export interface CourseLessonWithProduct extends CourseLesson {
+  productId: string;
+}
+
+export type UpdateCourseLesson = Partial<CourseLessonInput & { pdfPath: string | null }>;
+
+export interface CartWithItems extends Cart {
+  items: (StoredCartItem & { product: Product })[];
+}
+
+// A signed-in user's cart with items that was not changed for a while
+export interface IdleCart {
+  cartId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  updatedAt: Date;
+}
+
+export interface CartRecoveryStats {
+  sent: number;
+  restored: number;
+  recovered: number;
+  recoveredRevenue: string;
+}
+
+export interface SavedCartItem {
+  productId: string;
+  quantity: number;
+  unitPrice: string;
+}
+
+// Coupon form values as stored: amounts as numeric strings, empty scopes as
+// "any"
+function couponValues(coupon: CouponInput) {
+  const scope = (values: string[] | null | undefined) => (values && values.length > 0 ? values : null);
+  return {
+    code: coupon.code,
+    description: coupon.description || null,
+    type: coupon.type,
+    value: coupon.type === "free_shipping" ? "0" : coupon.value.toFixed(2),
+    categories: scope(coupon.categories),
+    productTypes: scope(coupon.productTypes),
+    ageRanges: scope(coupon.ageRanges),
+    minOrderAmount: coupon.minOrderAmount?.toFixed(2) ?? null,
+    maxUses: coupon.maxUses ?? null,
+    maxUsesPerUser: coupon.maxUsesPerUser ?? null,
+    startsAt: coupon.startsAt ?? null,
+    endsAt: coupon.endsAt ?? null,
+    isActive: coupon.isActive,
+  };
+}
+
+// Keeps the checkout's address picker short
+const MAX_USER_ADDRESSES = 10;
+
+function addressValues(address: UserAddressInput) {
+  return {
+    label: address.label || null,
+    recipientName: address.recipientName,
+    phone: address.phone,
+    street: address.street,
+    city: address.city,
+    province: address.province,
+    postalCode: address.postalCode.toUpperCase(),
+  };
+}
 
 export interface IStorage {
   // Users
@@ -24,6 +181,7 @@ export interface IStorage {
   // Products
   getProducts(): Promise<Product[]>;
   getProduct(id: string): Promise<Product | undefined>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
@@ -32,12 +190,111 @@ export interface IStorage {
   getOrders(): Promise<OrderWithItems[]>;
   getOrder(id: string): Promise<OrderWithItems | undefined>;
   getUserOrders(userId: string): Promise<OrderWithItems[]>;
-  createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems>;
-  updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  getOrderByTrackingToken(token: string): Promise<OrderWithItems | undefined>;
+  createOrder(order: CreateOrder, owner?: OrderOwner): Promise<OrderWithItems>;
+  claimGuestOrders(userId: string, email: string): Promise<number>;
+  updateOrderStatus(id: string, status: OrderStatus, change?: OrderStatusChange): Promise<Order | undefined>;
+
+  // Payments
+  getPayment(id: string): Promise<Payment | undefined>;
+  updatePayment(id: string, update: UpdatePayment, options?: UpdatePaymentOptions): Promise<Payment | undefined>;
+
+  // Cancellations and Refunds
+  cancelOrder(id: string, change: OrderStatusChange): Promise<Order | undefined>;
+  getUnpaidOrderIds(unpaidSince: Date): Promise<string[]>;
+  cancelUnpaidOrder(id: string, unpaidSince: Date, change: OrderStatusChange): Promise<Order | undefined>;
+  getPendingRefund(orderId: string): Promise<Refund | undefined>;
+  createRefund(refund: NewRefund): Promise<Refund>;
+  completeRefund(id: string, providerRefundId: string | null): Promise<Refund>;
+  failRefund(id: string): Promise<void>;
+
+  // Product Files
+  getProductFiles(productId: string): Promise<ProductFile[]>;
+  getProductFile(id: string): Promise<ProductFile | undefined>;
+  createProductFile(file: InsertProductFile): Promise<ProductFile>;
+  removeProductFile(id: string): Promise<ProductFile | undefined>;
+
+  // Download Links
+  createDownloadLinks(links: InsertDownloadLink[]): Promise<DownloadLink[]>;
+  getOrderDownloadLinks(orderId: string): Promise<DownloadLinkWithFile[]>;
+  getDownloadLink(id: string): Promise<DownloadLinkWithFile | undefined>;
+  recordDownload(id: string): Promise<DownloadLink | undefined>;
+
+  // License Keys
+  importLicenseKeys(productId: string, keys: string[]): Promise<number>;
+  assignLicenseKeys(orderItemId: string): Promise<LicenseKey[]>;
+  getLicenseKeyCounts(): Promise<LicenseKeyCounts[]>;
+  getLicenseKeyShortfalls(productId?: string): Promise<LicenseKeyShortfall[]>;
+
+  // Courses
+  getCourseModules(productId: string): Promise<CourseModule[]>;
+  getCourseModule(id: string): Promise<CourseModule | undefined>;
+  createCourseModule(productId: string, courseModule: CourseModuleInput): Promise<CourseModule>;
+  updateCourseModule(id: string, courseModule: CourseModuleInput): Promise<CourseModule | undefined>;
+  deleteCourseModule(id: string): Promise<CourseLesson[] | undefined>;
+  getCourseLessons(productId: string): Promise<CourseLesson[]>;
+  getCourseLesson(id: string): Promise<CourseLessonWithProduct | undefined>;
+  createCourseLesson(moduleId: string, lesson: CourseLessonInput): Promise<CourseLesson>;
+  updateCourseLesson(id: string, lesson: UpdateCourseLesson): Promise<CourseLesson | undefined>;
+  deleteCourseLesson(id: string): Promise<CourseLesson | undefined>;
+  getCompletedLessonIds(userId: string, productId: string): Promise<string[]>;
+  setLessonCompleted(userId: string, lessonId: string, completed: boolean): Promise<void>;
+  getLessonCompletions(productId: string, userIds: string[]): Promise<{ userId: string; lessonId: string }[]>;
+
+  // Purchases
+  hasPurchasedProduct(userId: string, productId: string): Promise<boolean>;
+  getPurchasedCourseIds(userId: string): Promise<string[]>;
+  getProductBuyerIds(productId: string): Promise<string[]>;
+
+  // Carts
+  getCart(userId: string): Promise<CartWithItems | undefined>;
+  saveCart(userId: string, items: SavedCartItem[]): Promise<void>;
+  getActiveCarts(): Promise<AdminCartSummary[]>;
+
+  // Cart Reminders
+  getIdleCarts(idleSince: Date, notBefore: Date): Promise<IdleCart[]>;
+  createCartReminder(reminder: InsertCartReminder): Promise<CartReminder>;
+  getCartReminder(id: string): Promise<CartReminder | undefined>;
+  deleteCartReminder(id: string): Promise<void>;
+  markCartReminderRestored(id: string): Promise<void>;
+  recordCartRecovery(order: Order, sentSince: Date): Promise<CartReminder | undefined>;
+  getCartRecoveryStats(sentSince: Date): Promise<CartRecoveryStats>;
+
+  // Coupons
+  getCoupons(): Promise<AdminCoupon[]>;
+  getCoupon(id: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: CouponInput): Promise<Coupon>;
+  updateCoupon(id: string, coupon: CouponInput): Promise<Coupon | undefined>;
+  deleteCoupon(id: string): Promise<boolean>;
+  quoteCoupon(code: string, items: CartItemInput[], customerEmail?: string): Promise<CouponQuote>;
+
+  // Shipping
+  getShippingZones(): Promise<ShippingZoneView[]>;
+  createShippingZone(zone: ShippingZoneInput): Promise<ShippingZoneView>;
+  updateShippingZone(id: string, zone: ShippingZoneInput): Promise<ShippingZoneView | undefined>;
+  deleteShippingZone(id: string): Promise<boolean>;
+  quoteShipping(items: CartItemInput[], province: Province): Promise<ShippingQuote>;
+
+  // Address Book
+  getUserAddresses(userId: string): Promise<UserAddress[]>;
+  createUserAddress(userId: string, address: UserAddressInput): Promise<UserAddress>;
+  updateUserAddress(userId: string, id: string, address: UserAddressInput): Promise<UserAddress | undefined>;
+  deleteUserAddress(userId: string, id: string): Promise<boolean>;
+
+  // Payment Events
+  recordPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined>;
+  deletePaymentEvent(id: string): Promise<void>;
+
+  // Email Outbox
+  queueEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry | undefined>;
+  claimDueEmails(now: Date, leaseUntil: Date, limit: number): Promise<EmailOutboxEntry[]>;
+  markEmailSent(id: string): Promise<void>;
+  markEmailAttemptFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
 
   // Admin Config
   getAdminConfig(): Promise<AdminConfigDB | undefined>;
   saveAdminConfig(config: InsertAdminConfigDB): Promise<AdminConfigDB>;
+  encryptAdminSecrets(): Promise<void>;
 
   // Password Recovery
   createPasswordRecoveryToken(userId: string, token: string): Promise<void>;
@@ -46,7 +303,14 @@ export interface IStorage {
 
   // User Profile Updates
   updateUserProfile(userId: string, data: { name: string; email: string }): Promise<User | undefined>;
-  updateUserPassword(userId: string, newPassword: string): Promise<void>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<void>;
+
+  // Sessions
+  createSession(userId: string, refreshTokenHash: string, expiresAt: Date): Promise<UserSession>;
+  getSession(id: string): Promise<UserSession | undefined>;
+  rotateSession(id: string, previousHash: string, refreshTokenHash: string, expiresAt: Date): Promise<UserSession | undefined>;
+  revokeSession(id: string): Promise<void>;
+  revokeUserSessions(userId: string, exceptSessionId?: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -77,6 +341,12 @@ export class DatabaseStorage implements IStorage {
     return product || undefined;
   }
 
+  // Inactive products included
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(products).where(inArray(products.id, ids));
+  }
+
   async createProduct(product: InsertProduct): Promise<Product> {
     const [newProduct] = await db
       .insert(products)
@@ -104,23 +374,7 @@ export class DatabaseStorage implements IStorage {
     const ordersWithItems: OrderWithItems[] = [];
 
     for (const order of allOrders) {
-      const items = await db
-        .select({
-          id: orderItems.id,
-          orderId: orderItems.orderId,
-          productId: orderItems.productId,
-          quantity: orderItems.quantity,
-          price: orderItems.price,
-          product: products,
-        })
-        .from(orderItems)
-        .innerJoin(products, eq(orderItems.productId, products.id))
-        .where(eq(orderItems.orderId, order.id));
-
-      ordersWithItems.push({
-        ...order,
-        items: items,
-      });
+      ordersWithItems.push(await this.withDetails(order));
     }
 
     return ordersWithItems;
@@ -130,6 +384,10 @@ export class DatabaseStorage implements IStorage {
     const [order] = await db.select().from(orders).where(eq(orders.id, id));
     if (!order) return undefined;
 
+    return this.withDetails(order);
+  }
+
+  private async withDetails(order: Order): Promise<OrderWithItems> {
     const items = await db
       .select({
         id: orderItems.id,
@@ -137,15 +395,35 @@ export class DatabaseStorage implements IStorage {
         productId: orderItems.productId,
         quantity: orderItems.quantity,
         price: orderItems.price,
+        discount: orderItems.discount,
+        refundedQuantity: orderItems.refundedQuantity,
         product: products,
       })
       .from(orderItems)
       .innerJoin(products, eq(orderItems.productId, products.id))
       .where(eq(orderItems.orderId, order.id));
 
+    const [payment] = await db.select().from(payments).where(eq(payments.orderId, order.id));
+
+    const history = await db
+      .select({ entry: orderStatusHistory, changedByName: users.name })
+      .from(orderStatusHistory)
+      .leftJoin(users, eq(orderStatusHistory.changedBy, users.id))
+      .where(eq(orderStatusHistory.orderId, order.id))
+      .orderBy(asc(orderStatusHistory.createdAt));
+
+    const keys = await db
+      .select()
+      .from(licenseKeys)
+      .where(eq(licenseKeys.orderId, order.id))
+      .orderBy(asc(licenseKeys.assignedAt));
+
     return {
       ...order,
       items: items,
+      payment: payment || null,
+      statusHistory: history.map(({ entry, changedByName }) => ({ ...entry, changedByName })),
+      licenseKeys: keys,
     };
   }
 
@@ -154,106 +432,1456 @@ export class DatabaseStorage implements IStorage {
     const ordersWithItems: OrderWithItems[] = [];
 
     for (const order of userOrders) {
-      const items = await db
-        .select({
-          id: orderItems.id,
-          orderId: orderItems.orderId,
-          productId: orderItems.productId,
-          quantity: orderItems.quantity,
-          price: orderItems.price,
-          product: products,
-        })
-        .from(orderItems)
-        .innerJoin(products, eq(orderItems.productId, products.id))
-        .where(eq(orderItems.orderId, order.id));
-
-      ordersWithItems.push({
-        ...order,
-        items: items,
-      });
+      ordersWithItems.push(await this.withDetails(order));
     }
 
     return ordersWithItems;
   }
 
-  async createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems> {
-    const [newOrder] = await db
-      .insert(orders)
-      .values(order)
-      .returning();
+  async getOrderByTrackingToken(token: string): Promise<OrderWithItems | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.trackingToken, token));
+    return order ? await this.withDetails(order) : undefined;
+  }
 
-    const createdItems = [];
+  async createOrder(
+    { items, paymentMethod, couponCode, shipping, shippingMethod, ...customer }: CreateOrder,
+    { userId = null, trackingToken = null }: OrderOwner = {},
+  ): Promise<OrderWithItems> {
+    // Merge repeated lines so stock is checked against the combined quantity
+    const quantities = new Map<string, number>();
     for (const item of items) {
-      const [orderItem] = await db
-        .insert(orderItems)
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+
+    const found = await db.select().from(products).where(inArray(products.id, Array.from(quantities.keys())));
+    const productsById = new Map(found.map(product => [product.id, product]));
+
+    const lineErrors: OrderLineError[] = [];
+    const lines: CouponLine[] = [];
+    let subtotalCents = 0;
+
+    quantities.forEach((quantity, productId) => {
+      const product = productsById.get(productId);
+      if (!product) {
+        lineErrors.push({ productId, code: "not_found", message: "El producto ya no existe" });
+        return;
+      }
+      if (!product.isActive) {
+        lineErrors.push({ productId, productName: product.name, code: "inactive", message: "El producto ya no está disponible" });
+        return;
+      }
+      if (product.type === "physical" && product.stock !== null && product.stock < quantity) {
+        lineErrors.push({
+          productId,
+          productName: product.name,
+          code: "out_of_stock",
+          message: product.stock > 0 ? `Solo quedan ${product.stock} unidades` : "Sin stock",
+          available: Math.max(product.stock, 0),
+        });
+        return;
+      }
+      lines.push({ product, quantity });
+      subtotalCents += toCents(product.price) * quantity;
+    });
+
+    if (lineErrors.length > 0) {
+      throw new ValidationError("Algunos productos de tu carrito no están disponibles", lineErrors);
+    }
+
+    const ships = needsShipping(lines);
+    // Picking up at the shop is free and needs no address or carrier rate
+    const pickup = ships && shippingMethod === "pickup";
+    let shippingCents = 0;
+    if (ships) {
+      if (!shippingMethod) {
+        throw new ValidationError("Elegí un método de envío", { field: "shippingMethod" });
+      }
+      if (shippingMethod !== "pickup") {
+        if (getPaymentMethod(paymentMethod).pickupOnly) {
+          throw new ValidationError("Con este método de pago el pedido se retira en el local", { field: "shippingMethod" });
+        }
+        if (!shipping) {
+          throw new ValidationError("Completá la dirección de envío", { field: "shipping" });
+        }
+        const rate = pickRate(await this.getProvinceRates(shipping.province), shippingMethod, parcelWeightGrams(lines));
+        if (!rate) {
+          throw new ValidationError("El método de envío elegido no está disponible para tu provincia", { field: "shippingMethod" });
+        }
+        shippingCents = toCents(rate.price);
+      }
+    }
+
+    // Everything below commits or rolls back as a unit. The stock checks
+    // above give friendly errors; the conditional decrements here are what
+    // actually prevent overselling when two buyers race for the last units.
+    return await db.transaction(async (tx) => {
+      const applied = couponCode
+        ? await this.checkCoupon(tx, couponCode, lines, { email: customer.customerEmail, userId }, true)
+        : undefined;
+      const discountCents = applied?.discountCents ?? 0;
+      // A free shipping coupon saves the buyer the shipping cost instead
+      const waivedShippingCents = applied?.freeShipping ? shippingCents : 0;
+      const chargedShippingCents = shippingCents - waivedShippingCents;
+
+      const [newOrder] = await tx
+        .insert(orders)
         .values({
-          ...item,
-          orderId: newOrder.id,
+          ...customer,
+          userId,
+          trackingToken,
+          ...(ships && shipping && !pickup
+            ? {
+                shippingAddress: formatShippingAddress(shipping),
+                shippingStreet: shipping.street,
+                shippingCity: shipping.city,
+                shippingProvince: shipping.province,
+                shippingPostalCode: shipping.postalCode.toUpperCase(),
+                shippingMethod,
+              }
+            : { shippingAddress: "", shippingMethod: pickup ? shippingMethod : null }),
+          shippingCost: fromCents(chargedShippingCents),
+          paymentMethod,
+          couponCode: applied?.coupon.code ?? null,
+          discount: fromCents(discountCents),
+          total: fromCents(subtotalCents - discountCents + chargedShippingCents),
+          status: "pending",
         })
         .returning();
 
-      const [product] = await db.select().from(products).where(eq(products.id, item.productId));
+      const [payment] = await tx
+        .insert(payments)
+        .values({ orderId: newOrder.id, method: paymentMethod, amount: newOrder.total })
+        .returning();
+
+      const [created] = await tx
+        .insert(orderStatusHistory)
+        .values({ orderId: newOrder.id, fromStatus: null, toStatus: newOrder.status })
+        .returning();
+
+      const createdItems = [];
+      const stockErrors: OrderLineError[] = [];
+
+      for (const [productId, quantity] of Array.from(quantities)) {
+        const product = productsById.get(productId)!;
+
+        // Stock is decremented for physical products that track it
+        if (product.type === "physical" && product.stock !== null) {
+          const [updated] = await tx
+            .update(products)
+            .set({ stock: sql`${products.stock} - ${quantity}` })
+            .where(and(
+              eq(products.id, productId),
+              eq(products.isActive, true),
+              gte(products.stock, quantity),
+            ))
+            .returning({ stock: products.stock });
+
+          if (!updated) {
+            const [current] = await tx.select({ stock: products.stock }).from(products).where(eq(products.id, productId));
+            const available = Math.max(current?.stock ?? 0, 0);
+            stockErrors.push({
+              productId,
+              productName: product.name,
+              code: "out_of_stock",
+              message: available > 0 ? `Solo quedan ${available} unidades` : "Sin stock",
+              available,
+            });
+            continue;
+          }
+        }
+
+        const [orderItem] = await tx
+          .insert(orderItems)
+          .values({
+            orderId: newOrder.id,
+            productId,
+            quantity,
+            price: product.price,
+            discount: fromCents(applied?.lineDiscounts.get(productId) ?? 0),
+          })
+          .returning();
 
-      if (product) {
         createdItems.push({
           ...orderItem,
           product,
         });
+      }
 
-        // Update stock for physical products
-        if (product.type === "physical" && product.stock !== null) {
-          await db
-            .update(products)
-            .set({ stock: product.stock - item.quantity })
-            .where(eq(products.id, product.id));
-        }
+      if (stockErrors.length > 0) {
+        // Throwing rolls back the order row and any decrements already applied
+        throw new ValidationError("Algunos productos de tu carrito no están disponibles", stockErrors);
       }
-    }
 
-    return {
-      ...newOrder,
-      items: createdItems,
-    };
+      if (applied) {
+        await tx.insert(couponRedemptions).values({
+          couponId: applied.coupon.id,
+          orderId: newOrder.id,
+          userId: newOrder.userId,
+          customerEmail: newOrder.customerEmail,
+          discount: fromCents(discountCents + waivedShippingCents),
+        });
+      }
+
+      return {
+        ...newOrder,
+        items: createdItems,
+        payment,
+        statusHistory: [{ ...created, changedByName: null }],
+        licenseKeys: [],
+      };
+    });
   }
 
-  async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
-    const [updatedOrder] = await db
+  // Attaches the guest orders placed with this email to the account, along
+  // with their coupon redemptions so per-customer caps keep counting them.
+  // Returns how many orders were claimed.
+  async claimGuestOrders(userId: string, email: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .update(orders)
+        .set({ userId })
+        .where(and(isNull(orders.userId), eq(sql`lower(${orders.customerEmail})`, email.toLowerCase())))
+        .returning({ id: orders.id });
+      if (claimed.length > 0) {
+        await tx
+          .update(couponRedemptions)
+          .set({ userId })
+          .where(inArray(couponRedemptions.orderId, claimed.map((order) => order.id)));
+      }
+      return claimed.length;
+    });
+  }
+
+  async updateOrderStatus(id: string, status: OrderStatus, change: OrderStatusChange = {}): Promise<Order | undefined> {
+    return await db.transaction((tx) => this.changeOrderStatus(tx, id, status, change));
+  }
+
+  // Every status change goes through here: the row lock serializes
+  // concurrent changes so the transition check and the history entry
+  // always see the status actually being replaced.
+  private async changeOrderStatus(
+    tx: Transaction,
+    id: string,
+    status: OrderStatus,
+    change: OrderStatusChange,
+  ): Promise<Order | undefined> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+    if (!order) return undefined;
+
+    if (!canTransitionOrder(order.status, status)) {
+      throw new ValidationError("Cambio de estado no permitido", { from: order.status, to: status });
+    }
+
+    const [updatedOrder] = await tx
       .update(orders)
-      .set({ status })
+      .set(status === "shipped" && change.trackingCode ? { status, trackingCode: change.trackingCode } : { status })
       .where(eq(orders.id, id))
       .returning();
-    return updatedOrder || undefined;
+
+    await tx.insert(orderStatusHistory).values({
+      orderId: id,
+      fromStatus: order.status,
+      toStatus: status,
+      changedBy: change.changedBy ?? null,
+      note: change.note ?? null,
+    });
+
+    // Whatever the path (admin, buyer, provider webhook), a voided order
+    // loses access to its digital files
+    if (status === "cancelled" || status === "refunded") {
+      await this.revokeDownloadLinks(tx, id);
+    }
+
+    return updatedOrder;
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment || undefined;
+  }
+
+  async updatePayment(
+    id: string,
+    update: UpdatePayment,
+    options: UpdatePaymentOptions = {},
+  ): Promise<Payment | undefined> {
+    return await db.transaction(async (tx) => {
+      // fromStatuses guards against two admins (or an admin and a webhook)
+      // settling the same payment concurrently; undefined means it moved on.
+      const [payment] = await tx
+        .update(payments)
+        .set({ ...update, updatedAt: new Date() })
+        .where(and(
+          eq(payments.id, id),
+          options.fromStatuses ? inArray(payments.status, options.fromStatuses) : undefined,
+        ))
+        .returning();
+
+      if (payment && options.orderStatus) {
+        await this.changeOrderStatus(tx, payment.orderId, options.orderStatus, options.statusChange ?? {});
+      }
+      return payment || undefined;
+    });
+  }
+
+  async cancelOrder(id: string, change: OrderStatusChange): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => await this.voidOrder(tx, id, change));
+  }
+
+  // MercadoPago orders still pending whose payment never got going (no
+  // payment was made, or it was rejected) and has not changed since
+  // unpaidSince. Payments MercadoPago still processes are left alone.
+  private unpaidOrderCondition(unpaidSince: Date): SQL | undefined {
+    return and(
+      eq(orders.status, "pending"),
+      eq(payments.method, "mercadopago"),
+      or(
+        and(eq(payments.status, "pending"), isNull(payments.providerStatus)),
+        eq(payments.status, "rejected"),
+      ),
+      lt(payments.updatedAt, unpaidSince),
+    );
+  }
+
+  async getUnpaidOrderIds(unpaidSince: Date): Promise<string[]> {
+    const rows = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .innerJoin(payments, eq(payments.orderId, orders.id))
+      .where(this.unpaidOrderCondition(unpaidSince))
+      .orderBy(asc(orders.createdAt));
+    return rows.map((row) => row.id);
+  }
+
+  // Cancels and restocks the order if it is still unpaid. The payment row is
+  // locked first, as updatePayment does, so a payment landing meanwhile
+  // either goes first or finds the order cancelled.
+  async cancelUnpaidOrder(id: string, unpaidSince: Date, change: OrderStatusChange): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [unpaid] = await tx
+        .select({ id: payments.id })
+        .from(payments)
+        .innerJoin(orders, eq(payments.orderId, orders.id))
+        .where(and(eq(orders.id, id), this.unpaidOrderCondition(unpaidSince)))
+        .for("update", { of: payments });
+      if (!unpaid) return undefined;
+      return await this.voidOrder(tx, id, change);
+    });
+  }
+
+  // Cancels the order and returns its stock
+  private async voidOrder(tx: Transaction, id: string, change: OrderStatusChange): Promise<Order | undefined> {
+    const order = await this.changeOrderStatus(tx, id, "cancelled", change);
+    if (!order) return undefined;
+
+    // Return whatever was not already refunded (and restocked) line by line
+    const lines = await tx
+      .select({ item: orderItems, product: products })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(eq(orderItems.orderId, id));
+    for (const { item, product } of lines) {
+      await this.restock(tx, product, item.quantity - item.refundedQuantity);
+    }
+
+    // Nothing was collected yet, so there is nothing to refund
+    await tx
+      .update(payments)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(payments.orderId, id), inArray(payments.status, ["pending", "in_review"])));
+
+    return order;
   }
 
+  // The oldest refund of the order still waiting for its outcome
+  async getPendingRefund(orderId: string): Promise<Refund | undefined> {
+    const [refund] = await db
+      .select()
+      .from(refunds)
+      .where(and(eq(refunds.orderId, orderId), eq(refunds.status, "pending")))
+      .orderBy(asc(refunds.createdAt))
+      .limit(1);
+    return refund || undefined;
+  }
+
+  // Reserves the refund as pending: its units count as taken for later
+  // refunds, but nothing else changes until completeRefund
+  async createRefund(refund: NewRefund): Promise<Refund> {
+    return await db.transaction(async (tx) => {
+      // Locking the order serializes refunds, so each one sees the quantities
+      // refunded or reserved by the others.
+      const [order] = await tx.select().from(orders).where(eq(orders.id, refund.orderId)).for("update");
+      const [payment] = await tx.select().from(payments).where(eq(payments.orderId, refund.orderId));
+      if (!order || !payment) {
+        throw new NotFoundError("Orden no encontrada");
+      }
+
+      const reserved = await this.reservedRefundQuantities(tx, order.id);
+      const lines = [];
+      let amountCents = 0;
+      let units = 0;
+
+      for (const { orderItemId, quantity } of refund.items) {
+        const [item] = await tx
+          .select()
+          .from(orderItems)
+          .where(and(eq(orderItems.id, orderItemId), eq(orderItems.orderId, order.id)));
+        if (!item) {
+          throw new ValidationError("El producto no pertenece a la orden", { orderItemId });
+        }
+
+        const taken = item.refundedQuantity + (reserved.get(item.id) ?? 0);
+        const available = item.quantity - taken;
+        if (quantity > available) {
+          throw new ValidationError("La cantidad a reembolsar supera la disponible", { orderItemId, available });
+        }
+
+        reserved.set(item.id, (reserved.get(item.id) ?? 0) + quantity);
+        const lineCents = lineRefundCents(item, taken, quantity);
+        amountCents += lineCents;
+        units += quantity;
+        lines.push({ orderItemId, quantity, amount: fromCents(lineCents) });
+      }
+
+      // Returning the last units also returns the shipping, so refunding the
+      // whole order gives back everything that was paid
+      const [{ remaining }] = await tx
+        .select({ remaining: sql<number>`coalesce(sum(${orderItems.quantity} - ${orderItems.refundedQuantity}), 0)::int` })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id));
+      const reservedBefore = Array.from(reserved.values()).reduce((sum, quantity) => sum + quantity, 0) - units;
+      if (remaining - reservedBefore === units) {
+        amountCents += toCents(order.shippingCost);
+      }
+
+      const [created] = await tx
+        .insert(refunds)
+        .values({
+          orderId: order.id,
+          paymentId: payment.id,
+          amount: fromCents(amountCents),
+          status: "pending",
+          // Cancelling already put every unit back in stock
+          restock: refund.restock && order.status !== "cancelled",
+          provider: refund.provider,
+          note: refund.note ?? null,
+          createdBy: refund.createdBy ?? null,
+        })
+        .returning();
+      await tx.insert(refundItems).values(lines.map((line) => ({ ...line, refundId: created.id })));
+      return created;
+    });
+  }
+
+  // Applies a pending refund once the money went back: quantities, download
+  // links, stock, the payment's refunded amount and the order status
+  async completeRefund(id: string, providerRefundId: string | null): Promise<Refund> {
+    return await db.transaction(async (tx) => {
+      const [found] = await tx.select({ orderId: refunds.orderId }).from(refunds).where(eq(refunds.id, id));
+      if (!found) {
+        throw new NotFoundError("Reembolso no encontrado");
+      }
+      // The same lock as createRefund, taken before the refund is read again
+      const [order] = await tx.select().from(orders).where(eq(orders.id, found.orderId)).for("update");
+      const [refund] = await tx.select().from(refunds).where(eq(refunds.id, id));
+      if (refund.status !== "pending") {
+        throw new ValidationError("El reembolso ya no está pendiente");
+      }
+
+      const lines = await tx
+        .select({ line: refundItems, item: orderItems, product: products })
+        .from(refundItems)
+        .innerJoin(orderItems, eq(refundItems.orderItemId, orderItems.id))
+        .innerJoin(products, eq(orderItems.productId, products.id))
+        .where(eq(refundItems.refundId, id));
+
+      for (const { line, item, product } of lines) {
+        const refundedQuantity = item.refundedQuantity + line.quantity;
+        await tx.update(orderItems).set({ refundedQuantity }).where(eq(orderItems.id, item.id));
+
+        if (refundedQuantity === item.quantity) {
+          await this.revokeDownloadLinks(tx, order.id, item.id);
+        }
+
+        // An order cancelled while the refund was pending got these units
+        // back in stock then
+        if (refund.restock && order.status !== "cancelled" && await this.restock(tx, product, line.quantity)) {
+          await tx.update(refundItems).set({ restocked: true }).where(eq(refundItems.id, line.id));
+        }
+      }
+
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId));
+      const refundedCents = toCents(payment.refundedAmount) + toCents(refund.amount);
+      const fullyRefunded = refundedCents >= toCents(payment.amount);
+      await tx
+        .update(payments)
+        .set({
+          refundedAmount: fromCents(refundedCents),
+          ...(fullyRefunded ? { status: "refunded" } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, payment.id));
+
+      // A provider webhook may already have moved the order to refunded
+      if (fullyRefunded && canTransitionOrder(order.status, "refunded")) {
+        await this.changeOrderStatus(tx, order.id, "refunded", { changedBy: refund.createdBy, note: refund.note });
+      }
+
+      const [completed] = await tx
+        .update(refunds)
+        .set({ status: "completed", providerRefundId })
+        .where(eq(refunds.id, id))
+        .returning();
+      return completed;
+    });
+  }
+
+  // The provider turned the refund down: its units are free to refund again
+  async failRefund(id: string): Promise<void> {
+    await db
+      .update(refunds)
+      .set({ status: "failed" })
+      .where(and(eq(refunds.id, id), eq(refunds.status, "pending")));
+  }
+
+  // Units per order line held by pending refunds
+  private async reservedRefundQuantities(tx: Transaction, orderId: string): Promise<Map<string, number>> {
+    const rows = await tx
+      .select({ orderItemId: refundItems.orderItemId, quantity: sql<number>`sum(${refundItems.quantity})::int` })
+      .from(refundItems)
+      .innerJoin(refunds, eq(refundItems.refundId, refunds.id))
+      .where(and(eq(refunds.orderId, orderId), eq(refunds.status, "pending")))
+      .groupBy(refundItems.orderItemId);
+    return new Map(rows.map((row) => [row.orderItemId, row.quantity]));
+  }
+
+  // Puts units back for physical products that track stock. Returns whether
+  // anything was restocked.
+  private async restock(tx: Transaction, product: Product, quantity: number): Promise<boolean> {
+    if (product.type !== "physical" || product.stock === null || quantity <= 0) {
+      return false;
+    }
+    await tx
+      .update(products)
+      .set({ stock: sql`${products.stock} + ${quantity}` })
+      .where(eq(products.id, product.id));
+    return true;
+  }
+
+  // Revokes the order's download links, or only those of one order line
+  private async revokeDownloadLinks(tx: Transaction, orderId: string, orderItemId?: string): Promise<void> {
+    await tx
+      .update(downloadLinks)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(downloadLinks.orderId, orderId),
+        orderItemId ? eq(downloadLinks.orderItemId, orderItemId) : undefined,
+        isNull(downloadLinks.revokedAt),
+      ));
+  }
+
+  async getProductFiles(productId: string): Promise<ProductFile[]> {
+    return await db
+      .select()
+      .from(productFiles)
+      .where(and(eq(productFiles.productId, productId), isNull(productFiles.removedAt)))
+      .orderBy(asc(productFiles.createdAt));
+  }
+
+  async getProductFile(id: string): Promise<ProductFile | undefined> {
+    const [file] = await db.select().from(productFiles).where(eq(productFiles.id, id));
+    return file || undefined;
+  }
+
+  async createProductFile(file: InsertProductFile): Promise<ProductFile> {
+    const [created] = await db.insert(productFiles).values(file).returning();
+    return created;
+  }
+
+  async removeProductFile(id: string): Promise<ProductFile | undefined> {
+    const [removed] = await db
+      .update(productFiles)
+      .set({ removedAt: new Date() })
+      .where(and(eq(productFiles.id, id), isNull(productFiles.removedAt)))
+      .returning();
+    return removed || undefined;
+  }
+
+  async createDownloadLinks(links: InsertDownloadLink[]): Promise<DownloadLink[]> {
+    if (links.length === 0) return [];
+    // Only the links that did not exist yet come back, so issuing is idempotent
+    return await db
+      .insert(downloadLinks)
+      .values(links)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async getOrderDownloadLinks(orderId: string): Promise<DownloadLinkWithFile[]> {
+    const rows = await db
+      .select({ link: downloadLinks, file: productFiles, productName: products.name })
+      .from(downloadLinks)
+      .innerJoin(productFiles, eq(downloadLinks.productFileId, productFiles.id))
+      .innerJoin(products, eq(productFiles.productId, products.id))
+      .where(eq(downloadLinks.orderId, orderId))
+      .orderBy(asc(downloadLinks.createdAt));
+    return rows.map(({ link, file, productName }) => ({ ...link, file, productName }));
+  }
+
+  async getDownloadLink(id: string): Promise<DownloadLinkWithFile | undefined> {
+    const [row] = await db
+      .select({ link: downloadLinks, file: productFiles, productName: products.name })
+      .from(downloadLinks)
+      .innerJoin(productFiles, eq(downloadLinks.productFileId, productFiles.id))
+      .innerJoin(products, eq(productFiles.productId, products.id))
+      .where(eq(downloadLinks.id, id));
+    return row ? { ...row.link, file: row.file, productName: row.productName } : undefined;
+  }
+
+  async recordDownload(id: string): Promise<DownloadLink | undefined> {
+    // The conditions make the cap hold under concurrent downloads; undefined
+    // means the link is revoked, expired or used up.
+    const [link] = await db
+      .update(downloadLinks)
+      .set({ downloadCount: sql`${downloadLinks.downloadCount} + 1`, lastDownloadedAt: new Date() })
+      .where(and(
+        eq(downloadLinks.id, id),
+        isNull(downloadLinks.revokedAt),
+        gt(downloadLinks.expiresAt, new Date()),
+        lt(downloadLinks.downloadCount, downloadLinks.maxDownloads),
+      ))
+      .returning();
+    return link || undefined;
+  }
+
+  async importLicenseKeys(productId: string, keys: string[]): Promise<number> {
+    let imported = 0;
+    // Batches keep each statement well under the bind parameter limit
+    for (let start = 0; start < keys.length; start += 1000) {
+      const inserted = await db
+        .insert(licenseKeys)
+        .values(keys.slice(start, start + 1000).map((key) => ({ productId, key })))
+        .onConflictDoNothing()
+        .returning({ id: licenseKeys.id });
+      imported += inserted.length;
+    }
+    return imported;
+  }
+
+  // Tops the order line up to one key per unit not refunded. Returns only
+  // the keys assigned by this call, so it is safe to repeat.
+  async assignLicenseKeys(orderItemId: string): Promise<LicenseKey[]> {
+    return await db.transaction(async (tx) => {
+      // Locking the line serializes concurrent fulfillments of the same order
+      const [item] = await tx.select().from(orderItems).where(eq(orderItems.id, orderItemId)).for("update");
+      if (!item) return [];
+
+      const [{ assigned }] = await tx
+        .select({ assigned: sql<number>`count(*)::int` })
+        .from(licenseKeys)
+        .where(eq(licenseKeys.orderItemId, item.id));
+      const needed = item.quantity - item.refundedQuantity - assigned;
+      if (needed <= 0) return [];
+
+      // SKIP LOCKED lets concurrent orders of the same product take
+      // different keys instead of queueing on the same free rows
+      const free = await tx
+        .select({ id: licenseKeys.id })
+        .from(licenseKeys)
+        .where(and(eq(licenseKeys.productId, item.productId), isNull(licenseKeys.orderItemId)))
+        .orderBy(asc(licenseKeys.createdAt))
+        .limit(needed)
+        .for("update", { skipLocked: true });
+      if (free.length === 0) return [];
+
+      return await tx
+        .update(licenseKeys)
+        .set({ orderId: item.orderId, orderItemId: item.id, assignedAt: new Date() })
+        .where(inArray(licenseKeys.id, free.map((key) => key.id)))
+        .returning();
+    });
+  }
+
+  async getLicenseKeyCounts(): Promise<LicenseKeyCounts[]> {
+    return await db
+      .select({
+        productId: products.id,
+        productName: products.name,
+        available: sql<number>`(count(${licenseKeys.id}) filter (where ${licenseKeys.orderItemId} is null))::int`,
+        assigned: sql<number>`count(${licenseKeys.orderItemId})::int`,
+      })
+      .from(products)
+      .leftJoin(licenseKeys, eq(licenseKeys.productId, products.id))
+      .where(and(eq(products.usesLicenseKeys, true), eq(products.isActive, true)))
+      .groupBy(products.id, products.name)
+      .orderBy(asc(products.name));
+  }
+
+  async getLicenseKeyShortfalls(productId?: string): Promise<LicenseKeyShortfall[]> {
+    const missing = sql<number>`(${orderItems.quantity} - ${orderItems.refundedQuantity} - count(${licenseKeys.id}))::int`;
+    return await db
+      .select({
+        orderId: orderItems.orderId,
+        orderItemId: orderItems.id,
+        productId: orderItems.productId,
+        missing,
+      })
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(payments, eq(payments.orderId, orders.id))
+      .leftJoin(licenseKeys, eq(licenseKeys.orderItemId, orderItems.id))
+      .where(and(
+        eq(products.usesLicenseKeys, true),
+        eq(payments.status, "approved"),
+        notInArray(orders.status, ["cancelled", "refunded"]),
+        productId ? eq(orderItems.productId, productId) : undefined,
+      ))
+      .groupBy(orderItems.id)
+      .having(sql`${missing} > 0`);
+  }
+
+  async getCourseModules(productId: string): Promise<CourseModule[]> {
+    return await db
+      .select()
+      .from(courseModules)
+      .where(eq(courseModules.productId, productId))
+      .orderBy(asc(courseModules.position), asc(courseModules.createdAt));
+  }
+
+  async getCourseModule(id: string): Promise<CourseModule | undefined> {
+    const [courseModule] = await db.select().from(courseModules).where(eq(courseModules.id, id));
+    return courseModule || undefined;
+  }
+
+  async createCourseModule(productId: string, { title, position }: CourseModuleInput): Promise<CourseModule> {
+    // New modules go last unless a position is given
+    const [{ next }] = await db
+      .select({ next: sql<number>`coalesce(max(${courseModules.position}) + 1, 0)::int` })
+      .from(courseModules)
+      .where(eq(courseModules.productId, productId));
+    const [courseModule] = await db
+      .insert(courseModules)
+      .values({ productId, title, position: position ?? next })
+      .returning();
+    return courseModule;
+  }
+
+  async updateCourseModule(id: string, courseModule: CourseModuleInput): Promise<CourseModule | undefined> {
+    const [updated] = await db
+      .update(courseModules)
+      .set(courseModule)
+      .where(eq(courseModules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Deletes the module with its lessons and their progress. Returns the
+  // deleted lessons so the caller can remove their files.
+  async deleteCourseModule(id: string): Promise<CourseLesson[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const lessons = await tx.select().from(courseLessons).where(eq(courseLessons.moduleId, id));
+      if (lessons.length > 0) {
+        await tx.delete(lessonProgress).where(inArray(lessonProgress.lessonId, lessons.map((lesson) => lesson.id)));
+        await tx.delete(courseLessons).where(eq(courseLessons.moduleId, id));
+      }
+      const deleted = await tx.delete(courseModules).where(eq(courseModules.id, id)).returning();
+      return deleted.length > 0 ? lessons : undefined;
+    });
+  }
+
+  async getCourseLessons(productId: string): Promise<CourseLesson[]> {
+    const rows = await db
+      .select({ lesson: courseLessons })
+      .from(courseLessons)
+      .innerJoin(courseModules, eq(courseLessons.moduleId, courseModules.id))
+      .where(eq(courseModules.productId, productId))
+      .orderBy(asc(courseLessons.position), asc(courseLessons.createdAt));
+    return rows.map(({ lesson }) => lesson);
+  }
+
+  async getCourseLesson(id: string): Promise<CourseLessonWithProduct | undefined> {
+    const [row] = await db
+      .select({ lesson: courseLessons, productId: courseModules.productId })
+      .from(courseLessons)
+      .innerJoin(courseModules, eq(courseLessons.moduleId, courseModules.id))
+      .where(eq(courseLessons.id, id));
+    return row ? { ...row.lesson, productId: row.productId } : undefined;
+  }
+
+  async createCourseLesson(moduleId: string, { title, type, videoUrl, body, position }: CourseLessonInput): Promise<CourseLesson> {
+    const [{ next }] = await db
+      .select({ next: sql<number>`coalesce(max(${courseLessons.position}) + 1, 0)::int` })
+      .from(courseLessons)
+      .where(eq(courseLessons.moduleId, moduleId));
+    const [lesson] = await db
+      .insert(courseLessons)
+      .values({ moduleId, title, type, videoUrl: videoUrl ?? null, body: body ?? null, position: position ?? next })
+      .returning();
+    return lesson;
+  }
+
+  async updateCourseLesson(id: string, lesson: UpdateCourseLesson): Promise<CourseLesson | undefined> {
+    const [updated] = await db
+      .update(courseLessons)
+      .set(lesson)
+      .where(eq(courseLessons.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCourseLesson(id: string): Promise<CourseLesson | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(lessonProgress).where(eq(lessonProgress.lessonId, id));
+      const [deleted] = await tx.delete(courseLessons).where(eq(courseLessons.id, id)).returning();
+      return deleted || undefined;
+    });
+  }
+
+  async getCompletedLessonIds(userId: string, productId: string): Promise<string[]> {
+    const rows = await db
+      .select({ lessonId: lessonProgress.lessonId })
+      .from(lessonProgress)
+      .innerJoin(courseLessons, eq(lessonProgress.lessonId, courseLessons.id))
+      .innerJoin(courseModules, eq(courseLessons.moduleId, courseModules.id))
+      .where(and(eq(lessonProgress.userId, userId), eq(courseModules.productId, productId)));
+    return rows.map((row) => row.lessonId);
+  }
+
+  async setLessonCompleted(userId: string, lessonId: string, completed: boolean): Promise<void> {
+    if (completed) {
+      await db.insert(lessonProgress).values({ userId, lessonId }).onConflictDoNothing();
+    } else {
+      await db
+        .delete(lessonProgress)
+        .where(and(eq(lessonProgress.userId, userId), eq(lessonProgress.lessonId, lessonId)));
+    }
+  }
+
+  async getLessonCompletions(productId: string, userIds: string[]): Promise<{ userId: string; lessonId: string }[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select({ userId: lessonProgress.userId, lessonId: lessonProgress.lessonId })
+      .from(lessonProgress)
+      .innerJoin(courseLessons, eq(lessonProgress.lessonId, courseLessons.id))
+      .innerJoin(courseModules, eq(courseLessons.moduleId, courseModules.id))
+      .where(and(eq(courseModules.productId, productId), inArray(lessonProgress.userId, userIds)));
+  }
+
+  // Distinct (user, product) pairs from order lines that grant access to what
+  // was bought: paid, not voided and not fully refunded
+  private async purchases(filter: SQL | undefined) {
+    return await db
+      .selectDistinct({ userId: orders.userId, productId: orderItems.productId })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(payments, eq(payments.orderId, orders.id))
+      .where(and(
+        eq(payments.status, "approved"),
+        notInArray(orders.status, ["cancelled", "refunded"]),
+        gt(orderItems.quantity, orderItems.refundedQuantity),
+        filter,
+      ));
+  }
+
+  async hasPurchasedProduct(userId: string, productId: string): Promise<boolean> {
+    const rows = await this.purchases(and(eq(orders.userId, userId), eq(orderItems.productId, productId)));
+    return rows.length > 0;
+  }
+
+  async getPurchasedCourseIds(userId: string): Promise<string[]> {
+    const rows = await this.purchases(and(
+      eq(orders.userId, userId),
+      sql`exists (select 1 from ${courseModules} where ${courseModules.productId} = ${orderItems.productId})`,
+    ));
+    return rows.map((row) => row.productId);
+  }
+
+  async getProductBuyerIds(productId: string): Promise<string[]> {
+    const rows = await this.purchases(and(eq(orderItems.productId, productId), isNotNull(orders.userId)));
+    return rows.map((row) => row.userId!);
+  }
+
+  async getCart(userId: string): Promise<CartWithItems | undefined> {
+    const [cart] = await db.select().from(carts).where(eq(carts.userId, userId));
+    if (!cart) return undefined;
+
+    const items = await db
+      .select({ item: cartItems, product: products })
+      .from(cartItems)
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .where(eq(cartItems.cartId, cart.id))
+      .orderBy(asc(cartItems.position));
+
+    return { ...cart, items: items.map(({ item, product }) => ({ ...item, product })) };
+  }
+
+  // Replaces the whole cart. Items that stay keep their row, so createdAt
+  // still tells when they were first added.
+  async saveCart(userId: string, items: SavedCartItem[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [cart] = await tx
+        .insert(carts)
+        .values({ userId })
+        .onConflictDoUpdate({ target: carts.userId, set: { updatedAt: new Date() } })
+        .returning();
+
+      const productIds = items.map((item) => item.productId);
+      await tx.delete(cartItems).where(and(
+        eq(cartItems.cartId, cart.id),
+        productIds.length > 0 ? notInArray(cartItems.productId, productIds) : undefined,
+      ));
+
+      for (let position = 0; position < items.length; position++) {
+        const item = items[position];
+        await tx
+          .insert(cartItems)
+          .values({ cartId: cart.id, ...item, position })
+          .onConflictDoUpdate({
+            target: [cartItems.cartId, cartItems.productId],
+            set: { quantity: item.quantity, unitPrice: item.unitPrice, position },
+          });
+      }
+    });
+  }
+
+  async getActiveCarts(): Promise<AdminCartSummary[]> {
+    return await db
+      .select({
+        id: carts.id,
+        userId: carts.userId,
+        userName: users.name,
+        userEmail: users.email,
+        itemCount: sql<number>`sum(${cartItems.quantity})::int`,
+        total: sql<string>`sum(${cartItems.quantity} * ${cartItems.unitPrice})::numeric(10, 2)::text`,
+        updatedAt: carts.updatedAt,
+      })
+      .from(carts)
+      .innerJoin(users, eq(carts.userId, users.id))
+      .innerJoin(cartItems, eq(cartItems.cartId, carts.id))
+      .groupBy(carts.id, users.id)
+      .orderBy(desc(carts.updatedAt));
+  }
+
+  // Carts last changed between notBefore and idleSince that were not reminded
+  // of since that change
+  async getIdleCarts(idleSince: Date, notBefore: Date): Promise<IdleCart[]> {
+    return await db
+      .select({
+        cartId: carts.id,
+        userId: carts.userId,
+        userName: users.name,
+        userEmail: users.email,
+        updatedAt: carts.updatedAt,
+      })
+      .from(carts)
+      .innerJoin(users, eq(carts.userId, users.id))
+      .where(and(
+        lt(carts.updatedAt, idleSince),
+        gte(carts.updatedAt, notBefore),
+        sql`exists (select 1 from ${cartItems} where ${cartItems.cartId} = ${carts.id})`,
+        sql`not exists (select 1 from ${cartReminders} where ${cartReminders.cartId} = ${carts.id} and ${cartReminders.sentAt} >= ${carts.updatedAt})`,
+      ))
+      .orderBy(asc(carts.updatedAt));
+  }
+
+  async createCartReminder(reminder: InsertCartReminder): Promise<CartReminder> {
+    const [created] = await db.insert(cartReminders).values(reminder).returning();
+    return created;
+  }
+
+  async getCartReminder(id: string): Promise<CartReminder | undefined> {
+    const [reminder] = await db.select().from(cartReminders).where(eq(cartReminders.id, id));
+    return reminder || undefined;
+  }
+
+  async deleteCartReminder(id: string): Promise<void> {
+    await db.delete(cartReminders).where(eq(cartReminders.id, id));
+  }
+
+  async markCartReminderRestored(id: string): Promise<void> {
+    await db
+      .update(cartReminders)
+      .set({ restoredAt: new Date() })
+      .where(and(eq(cartReminders.id, id), isNull(cartReminders.restoredAt)));
+  }
+
+  // Credits the order to the latest reminder sent to its buyer, matched by
+  // account or by email (checkout does not require signing in)
+  async recordCartRecovery(order: Order, sentSince: Date): Promise<CartReminder | undefined> {
+    const [reminder] = await db
+      .select({ id: cartReminders.id })
+      .from(cartReminders)
+      .innerJoin(users, eq(cartReminders.userId, users.id))
+      .where(and(
+        isNull(cartReminders.recoveredOrderId),
+        gte(cartReminders.sentAt, sentSince),
+        or(
+          order.userId ? eq(users.id, order.userId) : undefined,
+          eq(sql`lower(${users.email})`, order.customerEmail.toLowerCase()),
+        ),
+      ))
+      .orderBy(desc(cartReminders.sentAt))
+      .limit(1);
+    if (!reminder) return undefined;
+
+    const [recovered] = await db
+      .update(cartReminders)
+      .set({ recoveredOrderId: order.id, recoveredAt: new Date() })
+      .where(and(eq(cartReminders.id, reminder.id), isNull(cartReminders.recoveredOrderId)))
+      .returning();
+    return recovered;
+  }
+
+  async getCartRecoveryStats(sentSince: Date): Promise<CartRecoveryStats> {
+    const [stats] = await db
+      .select({
+        sent: sql<number>`count(*)::int`,
+        restored: sql<number>`count(${cartReminders.restoredAt})::int`,
+        recovered: sql<number>`count(${cartReminders.recoveredOrderId})::int`,
+        // Orders cancelled or refunded since did not bring in any money
+        recoveredRevenue: sql<string>`coalesce(sum(${orders.total}) filter (where ${orders.status} not in ('cancelled', 'refunded')), 0)::numeric(10, 2)::text`,
+      })
+      .from(cartReminders)
+      .leftJoin(orders, eq(cartReminders.recoveredOrderId, orders.id))
+      .where(gte(cartReminders.sentAt, sentSince));
+    return stats;
+  }
+
+  async getCoupons(): Promise<AdminCoupon[]> {
+    const rows = await db
+      .select({
+        coupon: coupons,
+        uses: sql<number>`(count(${couponRedemptions.id}) filter (where ${orders.status} <> 'cancelled'))::int`,
+        totalDiscount: sql<string>`coalesce(sum(${couponRedemptions.discount}) filter (where ${orders.status} <> 'cancelled'), 0)::numeric(10, 2)::text`,
+      })
+      .from(coupons)
+      .leftJoin(couponRedemptions, eq(couponRedemptions.couponId, coupons.id))
+      .leftJoin(orders, eq(couponRedemptions.orderId, orders.id))
+      .groupBy(coupons.id)
+      .orderBy(desc(coupons.createdAt));
+    return rows.map(({ coupon, ...usage }) => ({ ...coupon, ...usage }));
+  }
+
+  async getCoupon(id: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon || undefined;
+  }
+
+  async createCoupon(coupon: CouponInput): Promise<Coupon> {
+    const [created] = await db
+      .insert(coupons)
+      .values(couponValues(coupon))
+      .onConflictDoNothing({ target: coupons.code })
+      .returning();
+    if (!created) {
+      throw new ValidationError("Ya existe un cupón con ese código");
+    }
+    return created;
+  }
+
+  async updateCoupon(id: string, coupon: CouponInput): Promise<Coupon | undefined> {
+    const [taken] = await db
+      .select({ id: coupons.id })
+      .from(coupons)
+      .where(and(eq(coupons.code, coupon.code), ne(coupons.id, id)));
+    if (taken) {
+      throw new ValidationError("Ya existe un cupón con ese código");
+    }
+
+    const [updated] = await db
+      .update(coupons)
+      .set(couponValues(coupon))
+      .where(eq(coupons.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Coupons that were used stay, so their orders keep pointing at them
+  async deleteCoupon(id: string): Promise<boolean> {
+    const [used] = await db
+      .select({ id: couponRedemptions.id })
+      .from(couponRedemptions)
+      .where(eq(couponRedemptions.couponId, id))
+      .limit(1);
+    if (used) {
+      throw new ValidationError("El cupón ya se usó; desactivalo en lugar de eliminarlo");
+    }
+
+    const deleted = await db.delete(coupons).where(eq(coupons.id, id)).returning({ id: coupons.id });
+    return deleted.length > 0;
+  }
+
+  // What the coupon would take off the cart. Unavailable products are left
+  // out; the order itself reports them.
+  async quoteCoupon(code: string, items: CartItemInput[], customerEmail?: string): Promise<CouponQuote> {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+
+    const found = await this.getProductsByIds(Array.from(quantities.keys()));
+    const lines = found
+      .filter((product) => product.isActive)
+      .map((product) => ({ product, quantity: quantities.get(product.id)! }));
+
+    const applied = await db.transaction((tx) => this.checkCoupon(tx, code, lines, { email: customerEmail }, false));
+    return toCouponQuote(applied);
+  }
+
+  // Looks the code up and applies it to the order lines. With lock the coupon
+  // row stays locked until the transaction ends, so concurrent orders cannot
+  // both take its last use.
+  private async checkCoupon(
+    tx: Transaction,
+    code: string,
+    lines: CouponLine[],
+    customer: { email?: string; userId?: string | null },
+    lock: boolean,
+  ): Promise<AppliedCoupon> {
+    const query = tx.select().from(coupons).where(eq(coupons.code, normalizeCouponCode(code)));
+    const [coupon] = lock ? await query.for("update") : await query;
+    if (!coupon) {
+      return applyCoupon(undefined, lines, { total: 0, byCustomer: 0 });
+    }
+
+    const byCustomer = or(
+      customer.userId ? eq(couponRedemptions.userId, customer.userId) : undefined,
+      customer.email ? eq(sql`lower(${couponRedemptions.customerEmail})`, customer.email.toLowerCase()) : undefined,
+    ) ?? sql`false`;
+    const [usage] = await tx
+      .select({
+        total: sql<number>`count(*)::int`,
+        byCustomer: sql<number>`(count(*) filter (where ${byCustomer}))::int`,
+      })
+      .from(couponRedemptions)
+      .innerJoin(orders, eq(couponRedemptions.orderId, orders.id))
+      .where(and(eq(couponRedemptions.couponId, coupon.id), ne(orders.status, "cancelled")));
+
+    return applyCoupon(coupon, lines, usage);
+  }
+
+  async getShippingZones(): Promise<ShippingZoneView[]> {
+    const zones = await db.select().from(shippingZones).orderBy(asc(shippingZones.name));
+    const rates = await db
+      .select()
+      .from(shippingRates)
+      .orderBy(asc(shippingRates.method), sql`${shippingRates.maxWeightGrams} asc nulls last`);
+    return zones.map((zone) => ({ ...zone, rates: rates.filter((rate) => rate.zoneId === zone.id) }));
+  }
+
+  async createShippingZone(zone: ShippingZoneInput): Promise<ShippingZoneView> {
+    return await db.transaction(async (tx) => {
+      await this.assertProvincesFree(tx, zone.provinces);
+      const [created] = await tx
+        .insert(shippingZones)
+        .values({ name: zone.name, provinces: zone.provinces })
+        .returning();
+      return await this.replaceShippingRates(tx, created, zone);
+    });
+  }
+
+  async updateShippingZone(id: string, zone: ShippingZoneInput): Promise<ShippingZoneView | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.assertProvincesFree(tx, zone.provinces, id);
+      const [updated] = await tx
+        .update(shippingZones)
+        .set({ name: zone.name, provinces: zone.provinces })
+        .where(eq(shippingZones.id, id))
+        .returning();
+      if (!updated) return undefined;
+      return await this.replaceShippingRates(tx, updated, zone);
+    });
+  }
+
+  async deleteShippingZone(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(shippingRates).where(eq(shippingRates.zoneId, id));
+      const deleted = await tx.delete(shippingZones).where(eq(shippingZones.id, id)).returning({ id: shippingZones.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Options for the checkout. Unavailable products are left out; the order
+  // itself reports them.
+  async quoteShipping(items: CartItemInput[], province: Province): Promise<ShippingQuote> {
+    const found = await this.getProductsByIds(items.map((item) => item.productId));
+    const lines = items.flatMap((item) => {
+      const product = found.find((candidate) => candidate.id === item.productId);
+      return product?.isActive ? [{ product, quantity: item.quantity }] : [];
+    });
+
+    if (!needsShipping(lines)) {
+      return { required: false, weightGrams: 0, options: [] };
+    }
+    const weightGrams = parcelWeightGrams(lines);
+    return { required: true, weightGrams, options: shippingOptions(await this.getProvinceRates(province), weightGrams) };
+  }
+
+  // Rates of the zone the province belongs to; none when it is not shipped to
+  private async getProvinceRates(province: Province): Promise<ShippingRate[]> {
+    const rows = await db
+      .select({ rate: shippingRates })
+      .from(shippingRates)
+      .innerJoin(shippingZones, eq(shippingRates.zoneId, shippingZones.id))
+      .where(sql`${shippingZones.provinces} @> ${JSON.stringify([province])}::jsonb`);
+    return rows.map(({ rate }) => rate);
+  }
+
+  // Each province can only be priced by one zone
+  private async assertProvincesFree(tx: Transaction, provinces: Province[], exceptZoneId?: string): Promise<void> {
+    const others = await tx
+      .select()
+      .from(shippingZones)
+      .where(exceptZoneId ? ne(shippingZones.id, exceptZoneId) : undefined);
+    const taken = provinces.filter((province) => others.some((zone) => zone.provinces.includes(province)));
+    if (taken.length > 0) {
+      throw new ValidationError(`Ya pertenecen a otra zona: ${taken.join(", ")}`, { provinces: taken });
+    }
+  }
+
+  private async replaceShippingRates(tx: Transaction, zone: ShippingZone, input: ShippingZoneInput): Promise<ShippingZoneView> {
+    await tx.delete(shippingRates).where(eq(shippingRates.zoneId, zone.id));
+    const rates = await tx
+      .insert(shippingRates)
+      .values(input.rates.map((rate) => ({
+        zoneId: zone.id,
+        method: rate.method,
+        maxWeightGrams: rate.maxWeightGrams ?? null,
+        price: rate.price.toFixed(2),
+        deliveryTime: rate.deliveryTime || null,
+      })))
+      .returning();
+    return { ...zone, rates };
+  }
+
+  // The default address first, then the most recently used
+  async getUserAddresses(userId: string): Promise<UserAddress[]> {
+    return await db
+      .select()
+      .from(userAddresses)
+      .where(eq(userAddresses.userId, userId))
+      .orderBy(desc(userAddresses.isDefault), desc(userAddresses.updatedAt));
+  }
+
+  async createUserAddress(userId: string, address: UserAddressInput): Promise<UserAddress> {
+    return await db.transaction(async (tx) => {
+      // Locking keeps concurrent saves within the limit
+      const existing = await this.lockUserAddresses(tx, userId);
+      if (existing.length >= MAX_USER_ADDRESSES) {
+        throw new ValidationError(`Podés guardar hasta ${MAX_USER_ADDRESSES} direcciones`);
+      }
+
+      // The first address is the default one
+      const isDefault = address.isDefault || existing.length === 0;
+      if (isDefault) {
+        await this.clearDefaultAddress(tx, userId);
+      }
+      const [created] = await tx
+        .insert(userAddresses)
+        .values({ ...addressValues(address), userId, isDefault })
+        .returning();
+      return created;
+    });
+  }
+
+  async updateUserAddress(userId: string, id: string, address: UserAddressInput): Promise<UserAddress | undefined> {
+    return await db.transaction(async (tx) => {
+      if (address.isDefault) {
+        // Two addresses made default at once would both clear the old one
+        await this.lockUserAddresses(tx, userId);
+        await this.clearDefaultAddress(tx, userId, id);
+      }
+      const [updated] = await tx
+        .update(userAddresses)
+        .set({ ...addressValues(address), isDefault: address.isDefault, updatedAt: new Date() })
+        .where(and(eq(userAddresses.id, id), eq(userAddresses.userId, userId)))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteUserAddress(userId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(userAddresses)
+        .where(and(eq(userAddresses.id, id), eq(userAddresses.userId, userId)))
+        .returning();
+      if (!deleted) return false;
+
+      // Another address takes over as the default, so the checkout still
+      // has one to prefill
+      if (deleted.isDefault) {
+        const [next] = await tx
+          .select({ id: userAddresses.id })
+          .from(userAddresses)
+          .where(eq(userAddresses.userId, userId))
+          .orderBy(desc(userAddresses.updatedAt))
+          .limit(1);
+        if (next) {
+          await tx.update(userAddresses).set({ isDefault: true }).where(eq(userAddresses.id, next.id));
+        }
+      }
+      return true;
+    });
+  }
+
+  private async lockUserAddresses(tx: Transaction, userId: string): Promise<{ id: string }[]> {
+    return await tx
+      .select({ id: userAddresses.id })
+      .from(userAddresses)
+      .where(eq(userAddresses.userId, userId))
+      .for("update");
+  }
+
+  private async clearDefaultAddress(tx: Transaction, userId: string, exceptId?: string): Promise<void> {
+    await tx
+      .update(userAddresses)
+      .set({ isDefault: false })
+      .where(and(
+        eq(userAddresses.userId, userId),
+        eq(userAddresses.isDefault, true),
+        exceptId ? ne(userAddresses.id, exceptId) : undefined,
+      ));
+  }
+
+  async recordPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined> {
+    // Undefined when this exact payment state was already recorded (a redelivery)
+    const [inserted] = await db
+      .insert(paymentEvents)
+      .values(event)
+      .onConflictDoNothing()
+      .returning();
+    return inserted || undefined;
+  }
+
+  async deletePaymentEvent(id: string): Promise<void> {
+    await db.delete(paymentEvents).where(eq(paymentEvents.id, id));
+  }
+
+  // Undefined when an email with the same dedupeKey was already queued
+  async queueEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry | undefined> {
+    const [queued] = await db
+      .insert(emailOutbox)
+      .values(email)
+      .onConflictDoNothing({ target: emailOutbox.dedupeKey })
+      .returning();
+    return queued || undefined;
+  }
+
+  // Takes the due emails and leases them until leaseUntil in one statement:
+  // SKIP LOCKED plus the moved nextAttemptAt keep concurrent workers (or a
+  // second server process) from sending the same email twice. A worker that
+  // dies mid-delivery leaves the email to be retried once the lease runs out.
+  async claimDueEmails(now: Date, leaseUntil: Date, limit: number): Promise<EmailOutboxEntry[]> {
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db
+      .update(emailOutbox)
+      .set({ attempts: sql`${emailOutbox.attempts} + 1`, nextAttemptAt: leaseUntil })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", sentAt: new Date(), lastError: null })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // retryAt null gives up on the email
+  async markEmailAttemptFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set(retryAt ? { lastError: error, nextAttemptAt: retryAt } : { status: "failed", lastError: error })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // The secrets are stored encrypted (see secrets.ts) and come back decrypted
   async getAdminConfig(): Promise<AdminConfigDB | undefined> {
     const [config] = await db.select().from(adminConfig).limit(1);
-    return config || undefined;
+    return config ? this.decryptAdminConfig(config) : undefined;
   }
 
+  // Secrets left undefined keep their stored value; null or "" clears them
   async saveAdminConfig(config: InsertAdminConfigDB): Promise<AdminConfigDB> {
-    const existingConfig = await this.getAdminConfig();
+    const values = { ...config };
+    for (const field of ENCRYPTED_CONFIG_FIELDS) {
+      if (values[field] !== undefined) {
+        values[field] = values[field] ? encryptSecret(values[field]) : null;
+      }
+    }
+
+    const [existingConfig] = await db.select({ id: adminConfig.id }).from(adminConfig).limit(1);
 
     if (existingConfig) {
       const [updatedConfig] = await db
         .update(adminConfig)
         .set({
-          ...config,
+          ...values,
           updatedAt: new Date(),
         })
         .where(eq(adminConfig.id, existingConfig.id))
         .returning();
-      return updatedConfig;
+      return this.decryptAdminConfig(updatedConfig);
     } else {
       const [newConfig] = await db
         .insert(adminConfig)
-        .values(config)
+        .values(values)
         .returning();
-      return newConfig;
+      return this.decryptAdminConfig(newConfig);
+    }
+  }
+
+  private decryptAdminConfig(config: AdminConfigDB): AdminConfigDB {
+    const decrypted = { ...config };
+    for (const field of ENCRYPTED_CONFIG_FIELDS) {
+      const value = config[field];
+      decrypted[field] = value ? decryptSecret(value) : value;
+    }
+    return decrypted;
+  }
+
+  // Run at startup: encrypts secrets saved in plaintext before encryption was
+  // added, and fails early if the stored ones do not open with the current key
+  async encryptAdminSecrets(): Promise<void> {
+    const [config] = await db.select().from(adminConfig).limit(1);
+    if (!config) return;
+
+    const update: Partial<Record<EncryptedConfigField, string>> = {};
+    for (const field of ENCRYPTED_CONFIG_FIELDS) {
+      const value = config[field];
+      if (!value) continue;
+      if (isEncrypted(value)) {
+        decryptSecret(value);
+      } else {
+        update[field] = encryptSecret(value);
+      }
     }
+
+    if (Object.keys(update).length > 0) {
+      await db.update(adminConfig).set(update).where(eq(adminConfig.id, config.id));
+    }
+  }
+
+  async updateUserProfile(userId: string, data: { name: string; email: string }): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser || undefined;
   }
 
-  async updateUserPassword(userId: string, newPassword: string): Promise<void> {
-    await db.update(users).set({ password: newPassword }).where(eq(users.id, userId));
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db.update(users).set({ password: passwordHash }).where(eq(users.id, userId));
   }
 
   async createPasswordRecoveryToken(userId: string, token: string): Promise<void> {
@@ -287,6 +1915,52 @@ export class DatabaseStorage implements IStorage {
   async deletePasswordRecoveryToken(token: string): Promise<void> {
     await db.delete(passwordResetTokens).where(eq(passwordResetTokens.token, token));
   }
+
+  async createSession(userId: string, refreshTokenHash: string, expiresAt: Date): Promise<UserSession> {
+    const [session] = await db
+      .insert(userSessions)
+      .values({ userId, refreshTokenHash, expiresAt })
+      .returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.id, id));
+    return session || undefined;
+  }
+
+  async rotateSession(id: string, previousHash: string, refreshTokenHash: string, expiresAt: Date): Promise<UserSession | undefined> {
+    // Matching on the previous hash makes rotation single-use: two concurrent
+    // refreshes with the same token cannot both succeed.
+    const [session] = await db
+      .update(userSessions)
+      .set({ refreshTokenHash, expiresAt, lastUsedAt: new Date() })
+      .where(and(
+        eq(userSessions.id, id),
+        eq(userSessions.refreshTokenHash, previousHash),
+        isNull(userSessions.revokedAt),
+      ))
+      .returning();
+    return session || undefined;
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(userSessions.id, id), isNull(userSessions.revokedAt)));
+  }
+
+  async revokeUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        exceptSessionId ? ne(userSessions.id, exceptSessionId) : undefined,
+      ));
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const UNPAID_ORDER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// A MercadoPago order holds its stock while the buyer pays, or retries a
+// rejected payment, for this long
+export const UNPAID_ORDER_TTL_MS = 24 * HOUR_MS;
+
+// Cancels MercadoPago orders left unpaid, which returns their stock.
+// Returns how many orders were cancelled.
+export async function cancelUnpaidOrders(now = new Date()): Promise<number> {
+  const unpaidSince = new Date(now.getTime() - UNPAID_ORDER_TTL_MS);
+
+  let cancelled = 0;
+  for (const id of await storage.getUnpaidOrderIds(unpaidSince)) {
+    try {
+      if (await storage.cancelUnpaidOrder(id, unpaidSince, { note: "Cancelado por falta de pago" })) {
+        cancelled++;
+      }
+    } catch (error) {
+      console.error(`Could not cancel unpaid order ${id}:`, error);
+    }
+  }
+  return cancelled;
+}
+
+// Runs cancelUnpaidOrders in the background for the life of the process
+export function startUnpaidOrderJob(): void {
+  let running = false;
+  setInterval(async () => {
+    // A slow run must not overlap the next one
+    if (running) return;
+    running = true;
+    try {
+      const cancelled = await cancelUnpaidOrders();
+      if (cancelled > 0) {
+        log(`Cancelled ${cancelled} unpaid order(s)`, "unpaid-orders");
+      }
+    } catch (error) {
+      console.error("Unpaid order job failed:", error);
+    } finally {
+      running = false;
+    }
+  }, UNPAID_ORDER_CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { NotFoundError } from "./errors";
+
+// Files customers upload (e.g. transfer receipts) live on local disk under
+// UPLOAD_DIR; the database only stores paths relative to it.
+export function getUploadDir(): string {
+  return path.resolve(process.env.UPLOAD_DIR || "uploads");
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+export const RECEIPT_MIME_TYPES = Object.keys(EXTENSIONS);
+export const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+export async function saveUpload(folder: string, data: Buffer, mimeType: string): Promise<string> {
+  const extension = EXTENSIONS[mimeType] ?? "bin";
+  const relativePath = path.posix.join(folder, `${crypto.randomUUID()}.${extension}`);
+  const absolutePath = path.join(getUploadDir(), relativePath);
+
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, data);
+  return relativePath;
+}
+
+// Resolves a stored path, refusing anything that escapes the uploads dir
+export function resolveUpload(relativePath: string): string {
+  const root = getUploadDir();
+  const absolutePath = path.resolve(root, relativePath);
+  if (!absolutePath.startsWith(root + path.sep)) {
+    throw new NotFoundError("Archivo no encontrado");
+  }
+  return absolutePath;
+}
+
+export async function deleteUpload(relativePath: string): Promise<void> {
+  await fs.rm(resolveUpload(relativePath), { force: true });
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, decimal, timestamp, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, serial, boolean, decimal, timestamp, uuid, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -22,19 +22,43 @@ export const products = pgTable("products", {
   ageRange: text("age_range").notNull(),
   category: text("category").notNull(),
   stock: integer("stock"),
+  // Digital apps delivered as an activation code from license_keys
+  usesLicenseKeys: boolean("uses_license_keys").notNull().default(false),
+  // Packaged size of physical products, for shipping quotes
+  weightGrams: integer("weight_grams"),
+  lengthCm: integer("length_cm"),
+  widthCm: integer("width_cm"),
+  heightCm: integer("height_cm"),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // What customers and staff quote; see formatOrderNumber. Taken from a
+  // sequence, so concurrent checkouts never share one (gaps are possible)
+  number: serial("number").notNull().unique(),
   userId: varchar("user_id").references(() => users.id),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"), // "pending" | "confirmed" | "shipped" | "delivered"
+  status: text("status").notNull().default("pending"), // see ORDER_STATUSES
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email").notNull(),
   customerPhone: text("customer_phone").notNull(),
-  shippingAddress: text("shipping_address").notNull(),
+  // The address is copied onto the order, so editing or deleting a saved
+  // address later does not change where past orders went
+  shippingAddress: text("shipping_address").notNull(), // one line, empty for digital-only orders
+  shippingStreet: text("shipping_street"),
+  shippingCity: text("shipping_city"),
+  shippingProvince: text("shipping_province"), // see ARGENTINE_PROVINCES
+  shippingPostalCode: text("shipping_postal_code"),
+  shippingMethod: text("shipping_method"), // see SHIPPING_METHODS; null when nothing ships
+  shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  paymentMethod: text("payment_method").notNull().default("mercadopago"), // see PAYMENT_METHODS
+  couponCode: text("coupon_code"),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull().default("0"), // already taken off the total
+  // Secret of the public status page link; only guest orders get one
+  trackingToken: text("tracking_token").unique(),
+  trackingCode: text("tracking_code"), // the carrier's, entered when the order ships
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -44,8 +68,255 @@ export const orderItems = pgTable("order_items", {
   productId: varchar("product_id").references(() => products.id).notNull(),
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  // This line's share of the order's coupon discount, for the whole quantity
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull().default("0"),
+  refundedQuantity: integer("refunded_quantity").notNull().default(0),
 });
 
+// Audit trail of order status changes. changedBy is null for changes made by
+// the system (e.g. a payment webhook) or by an anonymous buyer.
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  fromStatus: text("from_status"), // null for the entry created with the order
+  toStatus: text("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per order recording how it is being paid. MercadoPago payments are
+// driven by webhooks; bank transfers and cash on pickup are approved by an admin.
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull().unique(),
+  method: text("method").notNull(), // see PAYMENT_METHODS
+  status: text("status").notNull().default("pending"), // see PAYMENT_STATUSES
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  providerPaymentId: text("provider_payment_id"), // e.g. MercadoPago payment id
+  providerStatus: text("provider_status"), // raw provider status, e.g. "in_process"
+  receiptPath: text("receipt_path"), // bank transfer receipt, relative to the uploads dir
+  receiptMimeType: text("receipt_mime_type"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Money returned to the buyer for some or all order lines. MercadoPago
+// refunds go through its API; other methods are returned by hand ("manual").
+// A refund is reserved as pending before the provider is called and only
+// touches stock, quantities and the payment once completed.
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  paymentId: varchar("payment_id").references(() => payments.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  status: text("status").notNull().default("completed"), // see REFUND_STATUSES
+  restock: boolean("restock").notNull().default(false), // put the units back when completed
+  provider: text("provider").notNull(), // "mercadopago" | "manual"
+  providerRefundId: text("provider_refund_id"),
+  note: text("note"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const refundItems = pgTable("refund_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  refundId: varchar("refund_id").references(() => refunds.id).notNull(),
+  orderItemId: varchar("order_item_id").references(() => orderItems.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  restocked: boolean("restocked").notNull().default(false),
+});
+
+// Files delivered to buyers of a digital product, stored under the uploads
+// dir. Removed files are kept as rows so issued links still resolve (to a 404).
+export const productFiles = pgTable("product_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  fileName: text("file_name").notNull(), // original name, used for the download
+  filePath: text("file_path").notNull(), // relative to the uploads dir
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  removedAt: timestamp("removed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One per purchased file and order line. Buyers get a signed URL for it (see
+// server/downloads.ts); the row enforces the expiry, the download cap and
+// revocation on refund.
+export const downloadLinks = pgTable("download_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  orderItemId: varchar("order_item_id").references(() => orderItems.id).notNull(),
+  productFileId: varchar("product_file_id").references(() => productFiles.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  maxDownloads: integer("max_downloads").notNull(),
+  downloadCount: integer("download_count").notNull().default(0),
+  lastDownloadedAt: timestamp("last_downloaded_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("download_links_item_file_idx").on(table.orderItemId, table.productFileId),
+]);
+
+// Pool of activation codes per product. A key is free while orderItemId is
+// null and is handed to exactly one order line once its payment is approved.
+export const licenseKeys = pgTable("license_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  key: text("key").notNull(),
+  orderId: varchar("order_id").references(() => orders.id),
+  orderItemId: varchar("order_item_id").references(() => orderItems.id),
+  assignedAt: timestamp("assigned_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("license_keys_product_key_idx").on(table.productId, table.key),
+]);
+
+// Course content of a digital program: modules hold ordered lessons. Only
+// buyers of the product (and admins) can open it.
+export const courseModules = pgTable("course_modules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  title: text("title").notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const courseLessons = pgTable("course_lessons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  moduleId: varchar("module_id").references(() => courseModules.id).notNull(),
+  title: text("title").notNull(),
+  type: text("type").notNull(), // see LESSON_TYPES
+  videoUrl: text("video_url"),
+  pdfPath: text("pdf_path"), // relative to the uploads dir
+  body: text("body"), // plain text; also shown under videos and PDFs
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const lessonProgress = pgTable("lesson_progress", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  lessonId: varchar("lesson_id").references(() => courseLessons.id).notNull(),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("lesson_progress_user_lesson_idx").on(table.userId, table.lessonId),
+]);
+
+// Signed-in users' carts, kept on the server so they follow the user across
+// devices. unitPrice is the price the user last saw, so a later price change
+// can be pointed out to them.
+export const carts = pgTable("carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const cartItems = pgTable("cart_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cartId: varchar("cart_id").references(() => carts.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  position: integer("position").notNull().default(0), // order in the cart
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("cart_items_cart_product_idx").on(table.cartId, table.productId),
+]);
+
+// Reminder emails sent for carts left idle. A cart gets one per idle stretch:
+// the next one only after the user changes the cart again. items is what the
+// restore link puts back; recoveredOrderId is the order placed afterwards.
+export const cartReminders = pgTable("cart_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cartId: varchar("cart_id").references(() => carts.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  items: jsonb("items").$type<CartItemInput[]>().notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  couponCode: text("coupon_code"),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+  restoredAt: timestamp("restored_at"), // first click on the restore link
+  recoveredOrderId: varchar("recovered_order_id").references(() => orders.id),
+  recoveredAt: timestamp("recovered_at"),
+});
+
+// Discount codes entered at checkout. The scope lists are null for "any";
+// a product qualifies when it matches every list that is set.
+export const coupons = pgTable("coupons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // stored upper case
+  description: text("description"),
+  type: text("type").notNull(), // see COUPON_TYPES
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"), // percent or amount; unused for free_shipping
+  categories: jsonb("categories").$type<string[]>(),
+  productTypes: jsonb("product_types").$type<string[]>(),
+  ageRanges: jsonb("age_ranges").$type<string[]>(),
+  minOrderAmount: decimal("min_order_amount", { precision: 10, scale: 2 }),
+  maxUses: integer("max_uses"),
+  maxUsesPerUser: integer("max_uses_per_user"),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One per order placed with a coupon. Redemptions of cancelled orders do not
+// count towards the usage caps.
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  couponId: varchar("coupon_id").references(() => coupons.id).notNull(),
+  orderId: varchar("order_id").references(() => orders.id).notNull().unique(),
+  userId: varchar("user_id").references(() => users.id),
+  customerEmail: text("customer_email").notNull(),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Provinces that share a shipping rate table. A province belongs to at most
+// one zone; provinces in none are not shipped to.
+export const shippingZones = pgTable("shipping_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  provinces: jsonb("provinces").$type<Province[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Weight tiers per zone and method: a parcel pays the cheapest tier whose
+// maxWeightGrams it fits in; null means no upper limit.
+export const shippingRates = pgTable("shipping_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  zoneId: varchar("zone_id").references(() => shippingZones.id).notNull(),
+  method: text("method").notNull(), // see SHIPPING_METHODS
+  maxWeightGrams: integer("max_weight_grams"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  deliveryTime: text("delivery_time"), // shown to buyers, e.g. "3 a 5 días hábiles"
+});
+
+// Address book used to prefill the checkout. At most one address per user is
+// the default.
+export const userAddresses = pgTable("user_addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  label: text("label"), // e.g. "Casa", "Trabajo"
+  recipientName: text("recipient_name").notNull(),
+  phone: text("phone").notNull(),
+  street: text("street").notNull(),
+  city: text("city").notNull(),
+  province: text("province").notNull(), // see ARGENTINE_PROVINCES
+  postalCode: text("postal_code").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("user_addresses_default_idx").on(table.userId).where(sql`${table.isDefault}`),
+]);
+
 export const adminConfig = pgTable("admin_config", {
   id: uuid("id").primaryKey().defaultRandom(),
   smtpEmail: text("smtp_email"),
@@ -54,10 +325,68 @@ export const adminConfig = pgTable("admin_config", {
   smtpPort: text("smtp_port"),
   mpAccessToken: text("mp_access_token"),
   mpPublicKey: text("mp_public_key"),
+  mpWebhookSecret: text("mp_webhook_secret"),
+  enabledPaymentMethods: jsonb("enabled_payment_methods").$type<PaymentMethodId[]>(), // null = MercadoPago only
+  bankTransferCbu: text("bank_transfer_cbu"),
+  bankTransferAlias: text("bank_transfer_alias"),
+  bankTransferHolder: text("bank_transfer_holder"),
+  bankTransferBank: text("bank_transfer_bank"),
+  cashPickupInstructions: text("cash_pickup_instructions"), // pickup address and opening hours
+  // Reminder emails for signed-in users' carts left idle
+  abandonedCartEnabled: boolean("abandoned_cart_enabled").notNull().default(false),
+  abandonedCartDelayHours: integer("abandoned_cart_delay_hours").notNull().default(24),
+  abandonedCartCoupon: text("abandoned_cart_coupon"), // offered in the reminder, if set
+  // Automatic emails to the buyer as the order moves along
+  notifyOrderReceived: boolean("notify_order_received").notNull().default(true),
+  notifyPaymentApproved: boolean("notify_payment_approved").notNull().default(true),
+  notifyOrderShipped: boolean("notify_order_shipped").notNull().default(true),
+  notifyOrderDelivered: boolean("notify_order_delivered").notNull().default(true),
+  // Alerts to the shop, sent to alertEmail or else to smtpEmail
+  alertNewOrder: boolean("alert_new_order").notNull().default(true),
+  alertLowStock: boolean("alert_low_stock").notNull().default(true),
+  alertEmail: text("alert_email"),
+  lowStockThreshold: integer("low_stock_threshold").notNull().default(3),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Raw provider notifications. The unique index makes redelivered webhooks
+// for the same payment state a no-op.
+export const paymentEvents = pgTable("payment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").references(() => orders.id).notNull(),
+  provider: text("provider").notNull(), // "mercadopago"
+  providerPaymentId: text("provider_payment_id").notNull(),
+  status: text("status").notNull(),
+  payload: jsonb("payload").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("payment_events_provider_payment_status_idx").on(table.provider, table.providerPaymentId, table.status),
+]);
+
+// Every outgoing email, rendered when queued and delivered by the outbox
+// worker (server/email.ts). nextAttemptAt is when a pending email is due;
+// while a delivery is under way it holds the lease instead.
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  template: text("template").notNull(), // see EMAIL_TEMPLATES
+  templateVersion: integer("template_version").notNull(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  // Set for emails that go out once per event (e.g. "order-shipped:<order id>");
+  // queueing the same key again does nothing
+  dedupeKey: text("dedupe_key").unique(),
+  status: text("status").notNull().default("pending"), // see EMAIL_STATUSES
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
 export const passwordResetTokens = pgTable("password_reset_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -66,6 +395,23 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Data migrations (server/data-migrations.ts) already applied; the SQL ones
+// are tracked by drizzle in drizzle.__drizzle_migrations
+export const dataMigrations = pgTable("data_migrations", {
+  id: text("id").primaryKey(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -87,37 +433,357 @@ export const registerSchema = createInsertSchema(users).omit({
   path: ["confirmPassword"],
 });
 
+export const ORDER_STATUSES = ["pending", "confirmed", "shipped", "delivered", "cancelled", "refunded", "returned"] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed order status changes; anything not listed is rejected.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["shipped", "cancelled", "refunded"],
+  shipped: ["delivered", "returned"],
+  delivered: ["returned", "refunded"],
+  returned: ["refunded"],
+  cancelled: ["refunded"], // a paid order cancelled before shipping still owes the refund
+  refunded: [],
+};
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  return (ORDER_STATUS_TRANSITIONS[from as OrderStatus] ?? []).includes(to as OrderStatus);
+}
+
+const ORDER_NUMBER_PREFIX = "EJ-";
+
+// 123 -> "EJ-000123"; numbers past 999999 just get longer
+export function formatOrderNumber(number: number): string {
+  return `${ORDER_NUMBER_PREFIX}${String(number).padStart(6, "0")}`;
+}
+
+// Reads an order number the way people type it: "EJ-000123", "ej123",
+// "#123" or "123". Returns null for anything else.
+export function parseOrderNumber(value: string): number | null {
+  const match = /^(?:#|EJ-?)?0*(\d+)$/i.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+export const EMAIL_TEMPLATES = [
+  "welcome",
+  "order_received",
+  "payment_approved",
+  "shipped",
+  "delivered",
+  "password_reset",
+  "cart_reminder",
+  "order_claim",
+  "owner_new_order",
+  "owner_low_stock",
+] as const;
+export type EmailTemplateName = typeof EMAIL_TEMPLATES[number];
+
+// "failed" is final: every retry was used up
+export const EMAIL_STATUSES = ["pending", "sent", "failed"] as const;
+export type EmailStatus = typeof EMAIL_STATUSES[number];
+
+// "pending": reserved while the provider is asked for the money back
+export const REFUND_STATUSES = ["pending", "completed", "failed"] as const;
+export type RefundStatus = typeof REFUND_STATUSES[number];
+
+export const PAYMENT_METHODS = ["mercadopago", "bank_transfer", "cash_on_pickup"] as const;
+export type PaymentMethodId = typeof PAYMENT_METHODS[number];
+
+// "in_review": a transfer receipt was uploaded and waits for an admin
+export const PAYMENT_STATUSES = ["pending", "in_review", "approved", "rejected", "cancelled", "refunded"] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export const ARGENTINE_PROVINCES = [
+  "Buenos Aires",
+  "Ciudad Autónoma de Buenos Aires",
+  "Catamarca",
+  "Chaco",
+  "Chubut",
+  "Córdoba",
+  "Corrientes",
+  "Entre Ríos",
+  "Formosa",
+  "Jujuy",
+  "La Pampa",
+  "La Rioja",
+  "Mendoza",
+  "Misiones",
+  "Neuquén",
+  "Río Negro",
+  "Salta",
+  "San Juan",
+  "San Luis",
+  "Santa Cruz",
+  "Santa Fe",
+  "Santiago del Estero",
+  "Tierra del Fuego",
+  "Tucumán",
+] as const;
+export type Province = typeof ARGENTINE_PROVINCES[number];
+
+// "home": delivered to the buyer's address; "branch": collected at a branch
+// of the carrier. Only these are priced by the shipping zones.
+export const CARRIER_SHIPPING_METHODS = ["home", "branch"] as const;
+export type CarrierShippingMethod = typeof CARRIER_SHIPPING_METHODS[number];
+
+// "pickup": collected at the shop, free and without an address, so a store
+// with no shipping zones can still sell physical products
+export const SHIPPING_METHODS = [...CARRIER_SHIPPING_METHODS, "pickup"] as const;
+export type ShippingMethod = typeof SHIPPING_METHODS[number];
+
+const cbuSchema = z.string().regex(/^\d{22}$/, "El CBU debe tener 22 dígitos");
+
+// Admin settings form. Empty strings mean "not set".
 export const adminConfigSchema = z.object({
-  smtpEmail: z.string().email().optional(),
+  smtpEmail: z.string().email().or(z.literal("")).optional(),
   smtpPassword: z.string().optional(),
   smtpHost: z.string().optional(),
   smtpPort: z.string().optional(),
   mpAccessToken: z.string().optional(),
   mpPublicKey: z.string().optional(),
+  mpWebhookSecret: z.string().optional(),
+  enabledPaymentMethods: z.array(z.enum(PAYMENT_METHODS)),
+  bankTransferCbu: cbuSchema.or(z.literal("")).optional(),
+  bankTransferAlias: z.string().optional(),
+  bankTransferHolder: z.string().optional(),
+  bankTransferBank: z.string().optional(),
+  cashPickupInstructions: z.string().optional(),
+  abandonedCartEnabled: z.boolean(),
+  abandonedCartDelayHours: z.number({ invalid_type_error: "Ingresá una cantidad de horas" })
+    .int()
+    .min(1, "Mínimo 1 hora")
+    .max(720, "Máximo 720 horas (30 días)"),
+  abandonedCartCoupon: z.string().max(50).optional(),
+  notifyOrderReceived: z.boolean(),
+  notifyPaymentApproved: z.boolean(),
+  notifyOrderShipped: z.boolean(),
+  notifyOrderDelivered: z.boolean(),
+  alertNewOrder: z.boolean(),
+  alertLowStock: z.boolean(),
+  alertEmail: z.string().email("Email inválido").or(z.literal("")).optional(),
+  lowStockThreshold: z.number({ invalid_type_error: "Ingresá una cantidad" })
+    .int()
+    .min(0, "No puede ser negativo")
+    .max(1000, "Máximo 1000 unidades"),
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+const sizeSchema = z.number().int().positive().nullish();
+
+export const insertProductSchema = createInsertSchema(products, {
+  weightGrams: sizeSchema,
+  lengthCm: sizeSchema,
+  widthCm: sizeSchema,
+  heightCm: sizeSchema,
+}).omit({
   id: true,
   createdAt: true,
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  number: true,
   userId: true,
+  couponCode: true,
+  discount: true,
+  shippingCost: true,
+  trackingToken: true,
   createdAt: true,
 });
 
+export const shippingAddressSchema = z.object({
+  street: z.string().trim().min(1, "La calle y el número son requeridos").max(200),
+  city: z.string().trim().min(1, "La localidad es requerida").max(100),
+  province: z.enum(ARGENTINE_PROVINCES, { errorMap: () => ({ message: "Elegí una provincia" }) }),
+  postalCode: z.string().trim().regex(/^([A-Za-z]\d{4}[A-Za-z]{3}|\d{4})$/, "Código postal inválido"),
+});
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
+  discount: true,
 });
 
+// What the checkout sends: customer details and product quantities only.
+// Prices, shipping and the total are always computed on the server. The
+// address and shipping method are only needed when something ships, and the
+// address not even then when the buyer picks the order up.
+export const createOrderSchema = insertOrderSchema.omit({
+  total: true,
+  status: true,
+  shippingAddress: true,
+  shippingStreet: true,
+  shippingCity: true,
+  shippingProvince: true,
+  shippingPostalCode: true,
+  shippingMethod: true,
+}).extend({
+  shipping: shippingAddressSchema.optional(),
+  shippingMethod: z.enum(SHIPPING_METHODS).optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().positive(),
+  })).min(1, "El pedido no tiene productos"),
+  paymentMethod: z.enum(PAYMENT_METHODS).default("mercadopago"),
+  couponCode: z.string().trim().max(50).optional(),
+});
+
+// What the admin UI saves; null clears a setting.
 export const insertAdminConfigSchema = z.object({
-  smtpEmail: z.string().email().optional(),
-  smtpPassword: z.string().optional(),
-  smtpHost: z.string().optional(),
-  smtpPort: z.string().optional(),
-  mpAccessToken: z.string().optional(),
-  mpPublicKey: z.string().optional(),
+  smtpEmail: z.string().email().nullish(),
+  smtpPassword: z.string().nullish(),
+  smtpHost: z.string().nullish(),
+  smtpPort: z.string().nullish(),
+  mpAccessToken: z.string().nullish(),
+  mpPublicKey: z.string().nullish(),
+  mpWebhookSecret: z.string().nullish(),
+  enabledPaymentMethods: z.array(z.enum(PAYMENT_METHODS)).nullish(),
+  bankTransferCbu: cbuSchema.nullish(),
+  bankTransferAlias: z.string().nullish(),
+  bankTransferHolder: z.string().nullish(),
+  bankTransferBank: z.string().nullish(),
+  cashPickupInstructions: z.string().nullish(),
+  abandonedCartEnabled: z.boolean().optional(),
+  abandonedCartDelayHours: z.number().int().min(1).max(720).optional(),
+  abandonedCartCoupon: z.string().max(50).nullish(),
+  notifyOrderReceived: z.boolean().optional(),
+  notifyPaymentApproved: z.boolean().optional(),
+  notifyOrderShipped: z.boolean().optional(),
+  notifyOrderDelivered: z.boolean().optional(),
+  alertNewOrder: z.boolean().optional(),
+  alertLowStock: z.boolean().optional(),
+  alertEmail: z.string().email().nullish(),
+  lowStockThreshold: z.number().int().min(0).max(1000).optional(),
+});
+
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().max(500).optional(),
+  trackingCode: z.string().trim().max(100).optional(), // only used when shipping
+});
+
+export const cancelOrderSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export const createRefundSchema = z.object({
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.number().int().positive(),
+  })).min(1, "Elegí al menos un producto para reembolsar"),
+  // Put physical items back in stock (e.g. they were returned or never shipped)
+  restock: z.boolean().default(true),
+  note: z.string().max(500).optional(),
+});
+
+export const LESSON_TYPES = ["video", "pdf", "text"] as const;
+export type LessonType = typeof LESSON_TYPES[number];
+
+export const courseModuleSchema = z.object({
+  title: z.string().trim().min(1, "El título es requerido").max(200),
+  position: z.number().int().min(0).optional(),
+});
+
+// The PDF itself is uploaded separately, once the lesson exists
+export const courseLessonSchema = z.object({
+  title: z.string().trim().min(1, "El título es requerido").max(200),
+  type: z.enum(LESSON_TYPES),
+  videoUrl: z.string().url("URL de video inválida").nullish(),
+  body: z.string().max(50_000).nullish(),
+  position: z.number().int().min(0).optional(),
+}).refine((lesson) => lesson.type !== "video" || !!lesson.videoUrl, {
+  message: "La lección de video necesita una URL",
+  path: ["videoUrl"],
+}).refine((lesson) => lesson.type !== "text" || !!lesson.body?.trim(), {
+  message: "La lección de texto necesita contenido",
+  path: ["body"],
+});
+
+export const lessonProgressSchema = z.object({
+  completed: z.boolean(),
+});
+
+// The cart as the browser keeps it; prices are always looked up on the server
+export const cartItemsSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().positive().max(999),
+  })).max(100),
+});
+
+export const COUPON_TYPES = ["percentage", "fixed", "free_shipping"] as const;
+export type CouponType = typeof COUPON_TYPES[number];
+
+const scopeSchema = z.array(z.string().trim().min(1)).nullish();
+
+// What the admin UI saves. Amounts are in pesos; null clears a limit.
+export const couponSchema = z.object({
+  code: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]{3,50}$/, "El código debe tener entre 3 y 50 letras, números, guiones o guiones bajos"),
+  description: z.string().max(200).nullish(),
+  type: z.enum(COUPON_TYPES),
+  value: z.number({ invalid_type_error: "Ingresá un valor" }).min(0),
+  categories: scopeSchema,
+  productTypes: scopeSchema,
+  ageRanges: scopeSchema,
+  minOrderAmount: z.number().positive().nullish(),
+  maxUses: z.number().int().positive().nullish(),
+  maxUsesPerUser: z.number().int().positive().nullish(),
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+  isActive: z.boolean().default(true),
+}).refine((coupon) => coupon.type !== "percentage" || (coupon.value > 0 && coupon.value <= 100), {
+  message: "El porcentaje debe estar entre 1 y 100",
+  path: ["value"],
+}).refine((coupon) => coupon.type !== "fixed" || coupon.value > 0, {
+  message: "Ingresá el monto del descuento",
+  path: ["value"],
+}).refine((coupon) => !coupon.startsAt || !coupon.endsAt || coupon.startsAt < coupon.endsAt, {
+  message: "La fecha de fin debe ser posterior a la de inicio",
+  path: ["endsAt"],
+});
+
+export const shippingQuoteSchema = cartItemsSchema.extend({
+  province: z.enum(ARGENTINE_PROVINCES),
+});
+
+export const shippingRateSchema = z.object({
+  method: z.enum(CARRIER_SHIPPING_METHODS),
+  maxWeightGrams: z.number().int().positive().nullish(),
+  price: z.number({ invalid_type_error: "Ingresá un precio" }).min(0),
+  deliveryTime: z.string().trim().max(100).nullish(),
+});
+
+// A zone is saved together with its whole rate table
+export const shippingZoneSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es requerido").max(100),
+  provinces: z.array(z.enum(ARGENTINE_PROVINCES)).min(1, "Elegí al menos una provincia"),
+  rates: z.array(shippingRateSchema).min(1, "Agregá al menos una tarifa").max(50),
+});
+
+export const userAddressSchema = shippingAddressSchema.extend({
+  label: z.string().trim().max(50).nullish(),
+  recipientName: z.string().trim().min(1, "El nombre es requerido").max(100),
+  phone: z.string().trim().min(1, "El teléfono es requerido").max(50),
+  isDefault: z.boolean().default(false),
+});
+
+// Checkout preview of a code against the current cart
+export const validateCouponSchema = cartItemsSchema.extend({
+  code: z.string().trim().min(1, "Ingresá un código").max(50),
+  customerEmail: z.string().email().optional(),
+});
+
+// Confirms the emailed link that attaches guest orders to an account
+export const claimOrdersSchema = z.object({
+  expires: z.number().int(),
+  signature: z.string().min(1),
+});
+
+export const reviewPaymentSchema = z.object({
+  approved: z.boolean(),
+  note: z.string().max(500).optional(),
 });
 
 export type User = typeof users.$inferSelect;
@@ -131,9 +797,58 @@ export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type CreateOrder = z.infer<typeof createOrderSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type UpdatePayment = Partial<Pick<Payment,
+  "status" | "providerPaymentId" | "providerStatus" | "receiptPath" | "receiptMimeType" | "reviewedBy" | "reviewedAt" | "reviewNote"
+>>;
+export type Refund = typeof refunds.$inferSelect;
+export type RefundItem = typeof refundItems.$inferSelect;
+export type CreateRefund = z.infer<typeof createRefundSchema>;
+export type ProductFile = typeof productFiles.$inferSelect;
+export type InsertProductFile = typeof productFiles.$inferInsert;
+export type DownloadLink = typeof downloadLinks.$inferSelect;
+export type InsertDownloadLink = typeof downloadLinks.$inferInsert;
+export type LicenseKey = typeof licenseKeys.$inferSelect;
+export type CourseModule = typeof courseModules.$inferSelect;
+export type CourseLesson = typeof courseLessons.$inferSelect;
+export type CourseModuleInput = z.infer<typeof courseModuleSchema>;
+export type CourseLessonInput = z.infer<typeof courseLessonSchema>;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+export type InsertPaymentEvent = typeof paymentEvents.$inferInsert;
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = typeof emailOutbox.$inferInsert;
+export type Cart = typeof carts.$inferSelect;
+export type StoredCartItem = typeof cartItems.$inferSelect;
+export type CartItemInput = z.infer<typeof cartItemsSchema>["items"][number];
+export type CartReminder = typeof cartReminders.$inferSelect;
+export type InsertCartReminder = typeof cartReminders.$inferInsert;
+export type ShippingZone = typeof shippingZones.$inferSelect;
+export type ShippingRate = typeof shippingRates.$inferSelect;
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+export type ShippingZoneInput = z.infer<typeof shippingZoneSchema>;
+export type UserAddress = typeof userAddresses.$inferSelect;
+export type UserAddressInput = z.infer<typeof userAddressSchema>;
+export type Coupon = typeof coupons.$inferSelect;
+export type CouponInput = z.infer<typeof couponSchema>;
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
 export type AdminConfigDB = typeof adminConfig.$inferSelect;
 export type InsertAdminConfigDB = z.infer<typeof insertAdminConfigSchema>;
 
+// A secret as the admin API shows it; the value itself never leaves the server
+export interface SecretStatus {
+  configured: boolean;
+  masked: string | null; // e.g. "••••1234"
+}
+
+export type AdminConfigView = Omit<AdminConfigDB, "smtpPassword" | "mpAccessToken" | "mpWebhookSecret"> & {
+  smtpPassword: SecretStatus;
+  mpAccessToken: SecretStatus;
+  mpWebhookSecret: SecretStatus;
+};
+
 export interface CartItem {
   product: Product;
   quantity: number;
@@ -141,4 +856,230 @@ export interface CartItem {
 
 export interface OrderWithItems extends Order {
   items: (OrderItem & { product: Product })[];
-}
\ No newline at end of file
+  payment: Payment | null;
+  statusHistory: OrderStatusHistoryEntry[];
+  licenseKeys: LicenseKey[];
+}
+
+export interface OrderStatusHistoryEntry extends OrderStatusHistory {
+  changedByName: string | null;
+}
+
+// Who and why, recorded alongside an order status change
+export interface OrderStatusChange {
+  changedBy?: string | null;
+  note?: string | null;
+  trackingCode?: string | null; // stored on the order when it ships
+}
+
+// What the buyer needs to complete an offline payment (bank details,
+// pickup address), shown after the order is placed.
+export interface PaymentInstructions {
+  title: string;
+  details: { label: string; value: string }[];
+  note?: string;
+}
+
+// A payment method as offered at checkout
+export interface PaymentMethodOption {
+  id: PaymentMethodId;
+  label: string;
+  description: string;
+  acceptsReceipt: boolean;
+  // The checkout only offers picking the order up at the shop
+  pickupOnly: boolean;
+}
+
+// Public payment state of an order, for the checkout result and payment pages
+export interface OrderPaymentState {
+  id: string;
+  number: number;
+  status: string;
+  total: string;
+  payment: {
+    method: PaymentMethodId;
+    status: PaymentStatus;
+    providerStatus: string | null;
+    hasReceipt: boolean;
+    canUploadReceipt: boolean;
+    reviewNote: string | null;
+  } | null;
+  instructions: PaymentInstructions | null;
+}
+
+// What the public tracking page shows of a guest order: no contact details
+// and only the city of the shipping address
+export interface TrackedOrder {
+  id: string;
+  number: number;
+  status: string;
+  createdAt: Date | null;
+  total: string;
+  discount: string;
+  couponCode: string | null;
+  shippingMethod: string | null;
+  shippingCost: string;
+  shippingCity: string | null;
+  shippingProvince: string | null;
+  trackingCode: string | null;
+  paymentStatus: PaymentStatus | null;
+  items: {
+    id: string;
+    productName: string;
+    imageUrl: string;
+    quantity: number;
+    refundedQuantity: number;
+    price: string;
+  }[];
+  statusHistory: OrderStatusHistoryEntry[];
+}
+
+// A lesson as shown in the course player; the PDF is fetched separately
+export interface CourseLessonView {
+  id: string;
+  moduleId: string;
+  title: string;
+  type: LessonType;
+  videoUrl: string | null;
+  body: string | null;
+  hasPdf: boolean;
+  position: number;
+  completed: boolean;
+}
+
+export interface CourseModuleView {
+  id: string;
+  title: string;
+  position: number;
+  lessons: CourseLessonView[];
+}
+
+export interface CourseSummary {
+  productId: string;
+  productName: string;
+  imageUrl: string;
+  totalLessons: number;
+  completedLessons: number;
+}
+
+export interface CourseView extends CourseSummary {
+  modules: CourseModuleView[];
+}
+
+// Aggregate progress of a course's buyers, for admins
+export interface CourseProgressReport {
+  learners: number;
+  completedCourse: number;
+  averageCompletion: number; // percent of lessons completed, averaged over learners
+  lessons: { lessonId: string; title: string; moduleTitle: string; completedBy: number }[];
+}
+
+// License key stock of a product, for the admin dashboard
+export interface LicenseKeyPool {
+  productId: string;
+  productName: string;
+  available: number;
+  assigned: number;
+  // Units paid for that are still waiting for a key
+  waiting: number;
+  low: boolean;
+}
+
+export type DownloadStatus = "active" | "expired" | "exhausted" | "revoked" | "unavailable";
+
+// A purchased file as listed to its buyer; url is only set while usable
+export interface OrderDownload {
+  id: string;
+  orderItemId: string;
+  productName: string;
+  fileName: string;
+  size: number;
+  expiresAt: string;
+  downloadsLeft: number;
+  status: DownloadStatus;
+  url: string | null;
+}
+
+export type OrderLineErrorCode = "not_found" | "inactive" | "out_of_stock";
+
+export interface OrderLineError {
+  productId: string;
+  productName?: string;
+  code: OrderLineErrorCode;
+  message: string;
+  available?: number;
+}
+
+// What changed in a saved cart since the user last saw it. Unavailable items
+// are removed, quantities are capped at the stock and prices are refreshed.
+export type CartNoticeCode = OrderLineErrorCode | "price_changed";
+
+export interface CartNotice {
+  productId: string;
+  productName?: string;
+  code: CartNoticeCode;
+  message: string;
+  available?: number;
+}
+
+export interface CartView {
+  items: CartItemInput[];
+  notices: CartNotice[];
+}
+
+export interface AdminCartSummary {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  itemCount: number;
+  total: string;
+  updatedAt: Date;
+}
+
+// What a cart reminder's restore link hands back to the browser
+export interface RestoredCart {
+  items: CartItemInput[];
+  couponCode: string | null;
+}
+
+export interface CartRecoveryReport {
+  days: number;
+  sent: number;
+  restored: number;
+  recovered: number;
+  recoveryRate: number; // percent of sent reminders followed by an order
+  recoveredRevenue: string;
+}
+
+export interface AdminCoupon extends Coupon {
+  uses: number; // redemptions, not counting cancelled orders
+  totalDiscount: string;
+}
+
+// What a coupon takes off a given cart
+export interface CouponQuote {
+  code: string;
+  type: CouponType;
+  description: string | null;
+  discount: string;
+  freeShipping: boolean;
+}
+
+export interface ShippingZoneView extends ShippingZone {
+  rates: ShippingRate[];
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  label: string;
+  cost: string;
+  deliveryTime: string | null;
+}
+
+// required is false when nothing in the cart ships (digital products only)
+export interface ShippingQuote {
+  required: boolean;
+  weightGrams: number;
+  options: ShippingOption[];
+}